@@ -33,6 +33,26 @@ async function bundle() {
     minify: true,
   });
 
+  // Node bundles
+  const node = {
+    ...common,
+    entryPoints: [path.join(__dirname, '../src/node.ts')],
+    platform: 'node',
+    target: ['node18'],
+  };
+
+  await esbuild.build({
+    ...node,
+    outfile: 'dist/smartinspect.node.mjs',
+    format: 'esm',
+  });
+
+  await esbuild.build({
+    ...node,
+    outfile: 'dist/smartinspect.node.cjs',
+    format: 'cjs',
+  });
+
   console.log('Bundles created successfully!');
 }
 
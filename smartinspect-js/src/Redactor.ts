@@ -0,0 +1,357 @@
+import type {
+  ContextProperties,
+  LogEntryMessage,
+  Message,
+  RedactionFunction,
+  RedactionOptions,
+  RedactionPattern,
+  ViewerId,
+  WatchMessage
+} from './types';
+
+/**
+ * Names whose values are redacted unless RedactionOptions.keys is given
+ */
+export const DEFAULT_REDACTED_KEYS: Array<string | RegExp> = [
+  'password',
+  'passwd',
+  'secret',
+  'token',
+  'authorization',
+  'cookie',
+  'apikey',
+  'api_key',
+  'api-key',
+  'credential',
+  'privatekey',
+  'private_key'
+];
+
+/**
+ * Patterns redacted unless RedactionOptions.patterns is given
+ */
+export const DEFAULT_REDACTION_PATTERNS: RedactionPattern[] = [
+  // Email addresses
+  { pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g },
+  // JSON Web Tokens: base64url header starting with '{"', payload and signature
+  { pattern: /\beyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g },
+  // Card numbers: 13 to 19 digits, optionally grouped, passing the Luhn check
+  { pattern: /\b[3-6]\d{3}(?:[ -]?\d){9,15}\b/g, test: passesLuhn }
+];
+
+/** 'name=value' pairs in query strings, form data and plain text */
+const NAME_VALUE_PAIR = /(^|[?&;\s])([\w.-]+)=([^&#\s]*)/g;
+
+/**
+ * Redacts sensitive data in messages before they are sent: values of
+ * sensitive names in JSON data, value lists, inspectors, tables, watches,
+ * context properties and 'name=value' pairs, text matching patterns
+ * everywhere, then custom steps. Turned off until options are given.
+ *
+ * @example
+ * ```typescript
+ * si.redactor.configure({ keys: [...DEFAULT_REDACTED_KEYS, 'ssn'] });
+ * si.getSession('Network')!.redactor = new Redactor({ custom: [stripBodies] });
+ * ```
+ */
+export class Redactor {
+  private compiledPatterns: Array<{ regex: RegExp; rule: RedactionPattern }> = [];
+
+  // Configuration
+  public enabled: boolean = false;
+  public keys: Array<string | RegExp> = DEFAULT_REDACTED_KEYS;
+  public custom: RedactionFunction[] = [];
+  public replacement: string = '[redacted]';
+
+  constructor(options?: RedactionOptions) {
+    this.patterns = DEFAULT_REDACTION_PATTERNS;
+    if (options) {
+      this.configure(options);
+    }
+  }
+
+  /**
+   * Gets or sets the patterns redacted in all text
+   */
+  get patterns(): RedactionPattern[] {
+    return this.compiledPatterns.map(({ rule }) => rule);
+  }
+
+  set patterns(value: RedactionPattern[]) {
+    this.compiledPatterns = value.map(rule => ({ regex: toGlobalRegExp(rule.pattern), rule }));
+  }
+
+  /**
+   * Apply options and turn redaction on, unless enabled is false.
+   * Can be called again at runtime.
+   */
+  configure(options: RedactionOptions): void {
+    this.enabled = options.enabled ?? true;
+    if (options.keys !== undefined) this.keys = options.keys;
+    if (options.patterns !== undefined) this.patterns = options.patterns;
+    if (options.custom !== undefined) this.custom = options.custom;
+    if (options.replacement !== undefined) this.replacement = options.replacement;
+  }
+
+  /**
+   * Redact a message; returns a redacted copy, or the message itself when turned off
+   */
+  redact(message: Message): Message {
+    if (!this.enabled) return message;
+
+    let redacted: Message;
+    switch (message.type) {
+      case 'logEntry':
+        redacted = this.redactLogEntry(message);
+        break;
+      case 'watch':
+        redacted = this.redactWatch(message);
+        break;
+      case 'processFlow':
+        redacted = {
+          ...message,
+          title: this.redactText(message.title),
+          properties: this.redactProperties(message.properties)
+        };
+        break;
+      default:
+        redacted = message;
+    }
+
+    for (const step of this.custom) {
+      redacted = step(redacted);
+    }
+    return redacted;
+  }
+
+  /**
+   * Redact the string fields of an object, e.g. request metadata: values of
+   * sensitive names entirely, others by pattern
+   */
+  redactFields<T extends object>(fields: T): T {
+    if (!this.enabled) return fields;
+
+    const result = { ...fields } as Record<string, unknown>;
+    for (const [key, value] of Object.entries(result)) {
+      if (typeof value === 'string') {
+        result[key] = this.isSensitiveKey(key) ? this.replacement : this.redactText(value);
+      }
+    }
+    return result as T;
+  }
+
+  /**
+   * Redact text: values of sensitive names in 'name=value' pairs, then patterns
+   */
+  redactText(text: string): string {
+    let result = text.replace(NAME_VALUE_PAIR, (pair, separator: string, name: string) =>
+      this.isSensitiveKey(name) ? `${separator}${name}=${this.replacement}` : pair
+    );
+
+    for (const { regex, rule } of this.compiledPatterns) {
+      regex.lastIndex = 0;
+      result = result.replace(regex, match =>
+        !rule.test || rule.test(match) ? rule.replacement ?? this.replacement : match
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Checks whether values of a property, header, watch or parameter name are redacted
+   */
+  isSensitiveKey(name: string): boolean {
+    const lower = name.toLowerCase();
+    return this.keys.some(rule => {
+      if (typeof rule === 'string') return lower.includes(rule.toLowerCase());
+      rule.lastIndex = 0;
+      return rule.test(name);
+    });
+  }
+
+  private redactLogEntry(message: LogEntryMessage): LogEntryMessage {
+    const redacted = {
+      ...message,
+      title: this.redactText(message.title),
+      properties: this.redactProperties(message.properties)
+    };
+    // Binary data is left as it is
+    if (message.data !== undefined && message.dataEncoding === undefined) {
+      redacted.data = this.redactData(message.data, message.viewerId);
+    }
+    return redacted;
+  }
+
+  private redactWatch(message: WatchMessage): WatchMessage {
+    const properties = this.redactProperties(message.properties);
+    if (this.isSensitiveKey(message.name)) {
+      return { ...message, value: this.replacement, properties };
+    }
+    const value = message.watchType === 'object'
+      ? this.redactData(message.value, 'json')
+      : this.redactText(message.value);
+    return { ...message, value, properties };
+  }
+
+  /**
+   * Redact context properties: values of sensitive names entirely, text by pattern
+   */
+  private redactProperties(properties: ContextProperties | undefined): ContextProperties | undefined {
+    if (!properties) return undefined;
+
+    const result: ContextProperties = {};
+    for (const [key, value] of Object.entries(properties)) {
+      if (this.isSensitiveKey(key)) {
+        result[key] = this.replacement;
+      } else {
+        result[key] = typeof value === 'string' ? this.redactText(value) : value;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Redact log data by its viewer format
+   */
+  private redactData(data: string, viewerId: ViewerId | undefined): string {
+    switch (viewerId) {
+      case 'valueList':
+        return this.redactValueList(data, '\\=');
+      case 'inspector':
+        return this.redactValueList(data, '\\=[]');
+      case 'table':
+        return this.redactTable(data);
+      default:
+        return this.redactJson(data) ?? this.redactText(data);
+    }
+  }
+
+  /**
+   * Redact JSON data; returns undefined for data that isn't a JSON object or array
+   */
+  private redactJson(data: string): string | undefined {
+    const trimmed = data.trim();
+    if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return undefined;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      return undefined;
+    }
+
+    // Keep the indentation the data was serialized with
+    const indent = /\n( +)/.exec(trimmed)?.[1].length ?? 0;
+    return JSON.stringify(this.redactValue(parsed), null, indent);
+  }
+
+  private redactValue(value: unknown): unknown {
+    if (typeof value === 'string') return this.redactText(value);
+    if (Array.isArray(value)) return value.map(item => this.redactValue(item));
+    if (typeof value === 'object' && value !== null) {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = this.isSensitiveKey(key) ? this.replacement : this.redactValue(item);
+      }
+      return result;
+    }
+    return value;
+  }
+
+  /**
+   * Redact 'key=value' lines of value list and inspector data; the key ends at the first unescaped '='
+   */
+  private redactValueList(data: string, escaped: string): string {
+    const replacement = escapeWith(this.replacement, escaped);
+
+    return data.split('\n').map(line => {
+      const separator = findUnescaped(line, '=');
+      if (separator < 0) return this.redactText(line);
+
+      const key = line.slice(0, separator);
+      return this.isSensitiveKey(key.replace(/\\(.)/g, '$1'))
+        ? `${key}=${replacement}${line.endsWith('\r') ? '\r' : ''}`
+        : `${key}=${this.redactText(line.slice(separator + 1))}`;
+    }).join('\n');
+  }
+
+  /**
+   * Redact table data: cells in columns with sensitive names, patterns in all cells
+   */
+  private redactTable(data: string): string {
+    const lines = data.split('\n');
+    const columns = parseCsvLine(lines[0] ?? '');
+    const sensitive = columns.map(column => this.isSensitiveKey(column));
+
+    return lines.map((line, index) => {
+      if (index === 0 || line.trim() === '') return line;
+
+      const cells = parseCsvLine(line).map((cell, column) =>
+        sensitive[column] ? this.replacement : this.redactText(cell)
+      );
+      return cells.map(cell => `"${cell.replace(/"/g, '""')}"`).join(', ') + (line.endsWith('\r') ? '\r' : '');
+    }).join('\n');
+  }
+}
+
+/**
+ * Compiles a pattern to a global regular expression
+ */
+function toGlobalRegExp(pattern: RegExp | string): RegExp {
+  if (typeof pattern === 'string') return new RegExp(pattern, 'g');
+  return pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+}
+
+/**
+ * Checks a card number with the Luhn algorithm
+ */
+function passesLuhn(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Finds the first occurrence of a character not escaped with a backslash
+ */
+function findUnescaped(line: string, char: string): number {
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '\\') {
+      i++;
+    } else if (line[i] === char) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Escapes the given characters with a backslash, as the viewer formats do
+ */
+function escapeWith(text: string, characters: string): string {
+  let result = '';
+  for (const char of text) {
+    result += characters.includes(char) ? `\\${char}` : char;
+  }
+  return result;
+}
+
+/**
+ * Parses a line of quoted, comma-separated table entries
+ */
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  const entry = /"((?:[^"]|"")*)"/g;
+  for (let match = entry.exec(line); match; match = entry.exec(line)) {
+    cells.push(match[1].replace(/""/g, '"'));
+  }
+  return cells;
+}
@@ -0,0 +1,358 @@
+import type { SerializerOptions, ValueFormatter } from './types';
+import { serializeError } from './errors';
+
+type Constructor = abstract new (...args: never[]) => unknown;
+
+/**
+ * Converts values to JSON for logObject, watchObject and log data. Unlike
+ * JSON.stringify it never throws: cycles, deep nesting, long strings and
+ * large collections are cut off with a marker, and Maps, Sets, BigInts,
+ * Dates, typed arrays, errors, DOM nodes and class instances keep their
+ * content and type.
+ *
+ * @example
+ * ```typescript
+ * si.serializer.register(Money, money => `${money.amount} ${money.currency}`);
+ * si.serializer.maxDepth = 4;
+ * ```
+ */
+export class Serializer {
+  private formatters: Map<Constructor, ValueFormatter> = new Map();
+
+  // Configuration
+  public maxDepth: number = 8;
+  public maxItems: number = 100;
+  public maxStringLength: number = 10000;
+  public maxRows: number = 1000;
+  public indent: number = 2;
+
+  constructor(options?: SerializerOptions) {
+    this.configure(options);
+  }
+
+  /**
+   * Apply options. Can be called again at runtime.
+   */
+  configure(options?: SerializerOptions): void {
+    if (options) {
+      if (options.maxDepth !== undefined) this.maxDepth = options.maxDepth;
+      if (options.maxItems !== undefined) this.maxItems = options.maxItems;
+      if (options.maxStringLength !== undefined) this.maxStringLength = options.maxStringLength;
+      if (options.maxRows !== undefined) this.maxRows = options.maxRows;
+      if (options.indent !== undefined) this.indent = options.indent;
+    }
+  }
+
+  /**
+   * Register a formatter for instances of a class and its subclasses.
+   * The formatter's result is serialized in place of the instance.
+   */
+  register<T>(type: abstract new (...args: never[]) => T, formatter: (value: T) => unknown): void {
+    this.formatters.set(type, formatter as ValueFormatter);
+  }
+
+  /**
+   * Remove the formatter for a class
+   */
+  unregister(type: Constructor): void {
+    this.formatters.delete(type);
+  }
+
+  /**
+   * Serialize a value for display. Strings are returned unchanged,
+   * everything else as (indented) JSON.
+   */
+  serialize(value: unknown): string {
+    if (typeof value === 'string') return value;
+
+    const json = this.toJson(value);
+    if (typeof json === 'string') return json;
+    return JSON.stringify(json, null, this.indent) ?? String(json);
+  }
+
+  /**
+   * Serialize a value on a single line, e.g. for list, inspector and table
+   * viewers. Strings are cut off after maxStringLength.
+   */
+  serializeInline(value: unknown): string {
+    if (typeof value === 'string') return this.truncate(value);
+    if (value === undefined) return 'undefined';
+
+    const json = this.toJson(value);
+    if (typeof json === 'string') return json;
+    return JSON.stringify(json) ?? String(json);
+  }
+
+  /**
+   * Convert a value to a structure JSON.stringify can always handle
+   */
+  toJson(value: unknown): unknown {
+    return this.convert(value, 0, []);
+  }
+
+  /**
+   * Convert one value; ancestors holds the objects on the current path for cycle detection
+   */
+  private convert(value: unknown, depth: number, ancestors: object[]): unknown {
+    switch (typeof value) {
+      case 'string':
+        return this.truncate(value);
+      case 'number':
+        return Number.isFinite(value) ? value : String(value);
+      case 'boolean':
+        return value;
+      case 'bigint':
+        return `${value}n`;
+      case 'symbol':
+        return value.toString();
+      case 'function':
+        return `[Function ${value.name || '(anonymous)'}]`;
+      case 'undefined':
+        return undefined;
+    }
+    if (value === null) return null;
+
+    const object = value as object;
+    if (ancestors.includes(object)) return '[Circular]';
+
+    ancestors.push(object);
+    try {
+      // Proxies can throw from any trap, e.g. in instanceof or Object.keys
+      const formatter = this.findFormatter(object);
+      if (!formatter) {
+        const special = this.convertSpecial(object);
+        if (special !== undefined) return special;
+      }
+
+      if (depth >= this.maxDepth) return `[${typeName(object)}]`;
+
+      return formatter
+        ? this.convertFormatted(formatter, object, depth, ancestors)
+        : this.convertObject(object, depth, ancestors);
+    } catch (error) {
+      return `[${typeName(object)}: serialization failed: ${(error as Error)?.message ?? error}]`;
+    } finally {
+      ancestors.pop();
+    }
+  }
+
+  /**
+   * Serialize the result of a registered formatter
+   */
+  private convertFormatted(formatter: ValueFormatter, object: object, depth: number, ancestors: object[]): unknown {
+    let formatted: unknown;
+    try {
+      formatted = formatter(object);
+    } catch (error) {
+      return `[${typeName(object)}: formatter failed: ${(error as Error)?.message ?? error}]`;
+    }
+    // A formatter returning the instance itself falls back to the default handling
+    if (formatted === object) {
+      return this.convertObject(object, depth, ancestors);
+    }
+    return this.convert(formatted, depth + 1, ancestors);
+  }
+
+  /**
+   * Convert values that are described by a single string or have their own serializer
+   */
+  private convertSpecial(object: object): unknown {
+    if (object instanceof Date) {
+      return Number.isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString();
+    }
+    if (object instanceof RegExp) return object.toString();
+    if (typeof Promise !== 'undefined' && object instanceof Promise) return '[Promise]';
+    if (typeof WeakMap !== 'undefined' && object instanceof WeakMap) return '[WeakMap]';
+    if (typeof WeakSet !== 'undefined' && object instanceof WeakSet) return '[WeakSet]';
+    if (object instanceof ArrayBuffer) return `[ArrayBuffer(${object.byteLength})]`;
+    if (object instanceof DataView) return `[DataView(${object.byteLength})]`;
+    if (isDomNode(object)) return describeNode(object);
+    return undefined;
+  }
+
+  /**
+   * Convert arrays, collections, typed arrays and objects
+   */
+  private convertObject(object: object, depth: number, ancestors: object[]): unknown {
+    const next = depth + 1;
+
+    if (Array.isArray(object)) {
+      return this.convertItems(object, next, ancestors);
+    }
+    if (object instanceof Error) {
+      // Each cause or aggregate level counts as one level of nesting
+      return serializeError(object, {
+        convert: (value, level) => this.convert(value, next + level, ancestors),
+        maxDepth: this.maxDepth - next,
+        ancestors
+      });
+    }
+    if (ArrayBuffer.isView(object)) {
+      // DataViews are handled as special values, so this is a typed array
+      const items = object as unknown as ArrayLike<number | bigint>;
+      return { '@type': `${typeName(object)}(${items.length})`, values: this.convertItems(items, next, ancestors) };
+    }
+    if (object instanceof Map) {
+      const entries: Record<string, unknown> = {};
+      let count = 0;
+      for (const [key, item] of object) {
+        if (count++ >= this.maxItems) {
+          entries['…'] = `${object.size - this.maxItems} more`;
+          break;
+        }
+        entries[this.formatKey(key, next, ancestors)] = this.convert(item, next, ancestors);
+      }
+      return { '@type': `Map(${object.size})`, entries };
+    }
+    if (object instanceof Set) {
+      const values = firstItems(object, this.maxItems);
+      return { '@type': `Set(${object.size})`, values: this.convertItems(values, next, ancestors, object.size) };
+    }
+
+    try {
+      const toJSON = (object as { toJSON?: unknown }).toJSON;
+      if (typeof toJSON === 'function') {
+        const json = toJSON.call(object);
+        if (json !== object) return this.convert(json, next, ancestors);
+      }
+    } catch {
+      // Fall through to the object's own properties
+    }
+
+    const result: Record<string, unknown> = {};
+    const type = typeName(object);
+    if (type !== 'Object') {
+      result['@type'] = type;
+    }
+
+    const keys = Object.keys(object);
+    for (const key of keys.slice(0, this.maxItems)) {
+      let item: unknown;
+      try {
+        item = (object as Record<string, unknown>)[key];
+      } catch (error) {
+        item = `[Getter failed: ${(error as Error)?.message ?? error}]`;
+      }
+      result[key] = this.convert(item, next, ancestors);
+    }
+    if (keys.length > this.maxItems) {
+      result['…'] = `${keys.length - this.maxItems} more`;
+    }
+    return result;
+  }
+
+  /**
+   * Convert array items, cutting off after maxItems
+   * @param total Number of items in the collection the items were taken from
+   */
+  private convertItems(items: ArrayLike<unknown>, depth: number, ancestors: object[], total: number = items.length): unknown[] {
+    const count = Math.min(items.length, this.maxItems);
+    const result: unknown[] = [];
+    for (let i = 0; i < count; i++) {
+      const item = this.convert(items[i], depth, ancestors);
+      result.push(item === undefined ? null : item);
+    }
+    if (total > count) {
+      result.push(`… ${total - count} more`);
+    }
+    return result;
+  }
+
+  /**
+   * Find the formatter registered for the object's class or a base class
+   */
+  private findFormatter(object: object): ValueFormatter | undefined {
+    if (this.formatters.size === 0) return undefined;
+
+    for (let proto = Object.getPrototypeOf(object); proto; proto = Object.getPrototypeOf(proto)) {
+      const formatter = this.formatters.get(proto.constructor);
+      if (formatter) return formatter;
+    }
+    return undefined;
+  }
+
+  /**
+   * Format a Map key as an object key
+   */
+  private formatKey(key: unknown, depth: number, ancestors: object[]): string {
+    if (typeof key === 'string') return key;
+    const converted = this.convert(key, depth, ancestors);
+    return typeof converted === 'string' ? converted : JSON.stringify(converted);
+  }
+
+  /**
+   * Cut off strings longer than maxStringLength
+   */
+  private truncate(value: string): string {
+    return value.length > this.maxStringLength
+      ? `${value.slice(0, this.maxStringLength)}… (${value.length - this.maxStringLength} more characters)`
+      : value;
+  }
+}
+
+/**
+ * Minimal view of a DOM node
+ */
+interface DomNode {
+  nodeType: number;
+  nodeName: string;
+  textContent?: string | null;
+  id?: string;
+  className?: unknown;
+}
+
+/**
+ * Checks for DOM nodes without depending on the DOM being present
+ */
+function isDomNode(object: object): object is DomNode {
+  try {
+    return typeof (object as DomNode).nodeType === 'number' && typeof (object as DomNode).nodeName === 'string';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Describes a DOM node like the browser console does, e.g. 'div#main.content'
+ */
+function describeNode(node: DomNode): string {
+  // 1 = element, 3 = text, 8 = comment
+  if (node.nodeType === 1) {
+    const id = node.id ? `#${node.id}` : '';
+    const classes = typeof node.className === 'string' && node.className.trim()
+      ? `.${node.className.trim().split(/\s+/).join('.')}`
+      : '';
+    return `${node.nodeName.toLowerCase()}${id}${classes}`;
+  }
+  if (node.nodeType === 3 || node.nodeType === 8) {
+    return `${node.nodeName} "${(node.textContent ?? '').slice(0, 100)}"`;
+  }
+  return node.nodeName;
+}
+
+/**
+ * Gets the class name of an object, 'Object' for plain objects
+ */
+function typeName(object: object): string {
+  try {
+    if (Array.isArray(object)) return `Array(${object.length})`;
+    const proto = Object.getPrototypeOf(object);
+    if (proto === null) return 'Object';
+    return (proto.constructor as { name?: string } | undefined)?.name || 'Object';
+  } catch {
+    // A throwing constructor getter or a revoked proxy
+    return 'Object';
+  }
+}
+
+/**
+ * Gets the first items of an iterable without copying the rest
+ */
+function firstItems<T>(iterable: Iterable<T>, max: number): T[] {
+  const items: T[] = [];
+  for (const item of iterable) {
+    if (items.length >= max) break;
+    items.push(item);
+  }
+  return items;
+}
@@ -1,34 +1,77 @@
 import type { IConnection } from './connections/IConnection';
+import type { SmartInspect } from './SmartInspect';
+import { isLevelEnabled, levelForEntryType } from './levels';
+import { monotonicNow, stampMessage } from './stamps';
+import { serializeError } from './errors';
+import { Serializer } from './Serializer';
+import type { Redactor } from './Redactor';
+import { Throttle } from './Throttle';
+import { InspectorViewerContext, ListViewerContext, TableViewerContext, ValueListViewerContext } from './viewers';
+import { toTable, type TableRows } from './tables';
+import { encodeImage, viewerForImage, type ImageSource } from './images';
+import { encodeBase64, toBytes } from './binary/base64';
+import { numberLines, viewerForLanguage } from './text';
+import { currentDepth, currentThreadName, isPromiseLike, markErrorLogged, runAtDepth } from './tracking';
+import { childSpan, currentTrace, runInTrace } from './tracing';
 import type {
+  Level,
   LogEntryType,
   ViewerId,
   WatchType,
   ProcessFlowType,
   LogEntryMessage,
+  LogTextOptions,
+  SourceLanguage,
+  Message,
+  ContextProperties,
   WatchMessage,
   ProcessFlowMessage
 } from './types';
 
+/** Serializer for sessions without a SmartInspect parent */
+const defaultSerializer = new Serializer();
+
 /**
  * A logging session that sends messages to SmartInspect Console
  */
 export class Session {
-  private connection: IConnection;
+  private _connection: IConnection;
   private _name: string;
   private _appName: string;
+  private _hostName: string | undefined;
   private _active: boolean = true;
   private _defaultColor: string | undefined;
+  private _level: Level | undefined;
+  private _redactor: Redactor | undefined;
+  private _throttle: Throttle;
+  private _properties: ContextProperties | undefined;
+  private parent: SmartInspect | undefined;
+  private lastWatches: Map<string, WatchMessage> = new Map();
 
   /**
    * Creates a new Session
    * @param connection The connection (WebSocket or HTTP)
    * @param name Session name
    * @param appName Application name
+   * @param parent Owning SmartInspect instance, used to inherit the log level
    */
-  constructor(connection: IConnection, name: string, appName: string) {
-    this.connection = connection;
+  constructor(connection: IConnection, name: string, appName: string, parent?: SmartInspect) {
+    this._connection = connection;
     this._name = name;
     this._appName = appName;
+    this.parent = parent;
+    this._throttle = new Throttle(message => this.deliver(message));
+  }
+
+  /**
+   * Gets or sets the connection messages are sent through
+   */
+  get connection(): IConnection {
+    return this._connection;
+  }
+
+  set connection(value: IConnection) {
+    this._connection = value;
   }
 
   /**
@@ -42,6 +85,28 @@ export class Session {
     this._name = value;
   }
 
+  /**
+   * Gets or sets the application name sent with every message
+   */
+  get appName(): string {
+    return this._appName;
+  }
+
+  set appName(value: string) {
+    this._appName = value;
+  }
+
+  /**
+   * Gets or sets the host name or instance label sent with every message
+   */
+  get hostName(): string | undefined {
+    return this._hostName;
+  }
+
+  set hostName(value: string | undefined) {
+    this._hostName = value;
+  }
+
   /**
    * Gets or sets whether the session is active
    */
@@ -64,6 +129,80 @@ export class Session {
     this._defaultColor = value;
   }
 
+  /**
+   * Gets or sets the minimum log level for this session.
+   * Set to undefined to inherit the level of the owning SmartInspect instance.
+   */
+  get level(): Level {
+    return this._level ?? this.parent?.level ?? 'debug';
+  }
+
+  set level(value: Level | undefined) {
+    this._level = value;
+  }
+
+  /**
+   * Gets or sets the redaction rules applied before messages are sent.
+   * Set to undefined to use those of the owning SmartInspect instance.
+   */
+  get redactor(): Redactor | undefined {
+    return this._redactor ?? this.parent?.redactor;
+  }
+
+  set redactor(value: Redactor | undefined) {
+    this._redactor = value;
+  }
+
+  /**
+   * Gets the rate limits, sampling and duplicate suppression of this session
+   */
+  get throttle(): Throttle {
+    return this._throttle;
+  }
+
+  /**
+   * Gets the level used by methods without an inherent level (objects, text, watches, process flow)
+   */
+  get defaultLevel(): Level {
+    return this.parent?.defaultLevel ?? 'message';
+  }
+
+  /**
+   * Checks whether entries at the given level would be sent
+   */
+  isOn(level: Level): boolean {
+    return this._active && isLevelEnabled(level, this.level);
+  }
+
+  // ==================== Context Properties ====================
+
+  /**
+   * Creates a child session that adds properties to every message it sends.
+   * The child shares name, level, connection and all other settings with
+   * this session; change them here rather than on the child.
+   *
+   * @example
+   * ```typescript
+   * const log = session.withContext({ requestId, route: '/api/users' });
+   * log.logMessage('Loading users'); // sent with requestId and route
+   * ```
+   */
+  withContext(properties: ContextProperties): Session {
+    const child = Object.create(this) as Session;
+    child._properties = { ...this._properties, ...properties };
+    return child;
+  }
+
+  /**
+   * Gets the properties added to messages: those of SmartInspect.pushContext()
+   * scopes, then those of withContext(), or undefined if there are none
+   */
+  get properties(): ContextProperties | undefined {
+    const scoped = this.parent?.currentContext();
+    if (!scoped) return this._properties;
+    return this._properties ? { ...scoped, ...this._properties } : scoped;
+  }
+
   // ==================== Basic Logging ====================
 
   /**
@@ -119,34 +258,99 @@ export class Session {
    * Logs an object (serialized to JSON)
    */
   logObject(title: string, obj: unknown, color?: string): void {
+    if (!this.isOn(this.defaultLevel)) return;
+
     const data = this.serializeValue(obj);
     this.sendLogEntry('object', title, data, 'json', color);
   }
 
   /**
-   * Logs an exception/error
+   * Logs an exception with its cause chain, aggregate children, custom
+   * properties and parsed stack frames. When source maps are configured,
+   * the entry is sent once the frames are resolved, keeping its original
+   * timestamp and sequence number.
    */
-  logException(title: string, error: Error, color?: string): void {
-    const data = {
-      name: error.name,
-      message: error.message,
-      stack: error.stack
-    };
-    this.sendLogEntry('error', title, JSON.stringify(data, null, 2), 'json', color ?? '#FF0000');
+  logException(title: string, error: unknown, color?: string): void {
+    if (!this.isOn('error')) return;
+
+    const serializer = this.parent?.serializer ?? defaultSerializer;
+    const serialized = serializeError(error, { convert: value => serializer.toJson(value) });
+    const resolver = this.parent?.sourceMaps;
+    if (!resolver) {
+      this.sendLogEntry('error', title, JSON.stringify(serialized, null, 2), 'json', color ?? '#FF0000');
+      return;
+    }
+
+    const message = stampMessage(this.createLogEntry('error', title, undefined, 'json', color ?? '#FF0000'));
+    resolver.resolve(serialized)
+      .catch(() => serialized)
+      .then(resolved => {
+        message.data = JSON.stringify(resolved, null, 2);
+        this.send(message);
+      })
+      .catch(() => {
+        // Never reject into the caller; send the frames as they were thrown
+        try {
+          message.data = JSON.stringify(serialized, null, 2);
+          this.send(message);
+        } catch {
+          // The connection failed as well; the entry is lost
+        }
+      });
   }
 
   /**
-   * Logs text with a specific viewer
+   * Logs text with a specific viewer, optionally with line numbers
+   *
+   * @example
+   * ```typescript
+   * session.logText('Generated query', sql, { lineNumbers: true });
+   * ```
    */
-  logText(title: string, text: string, viewerId: ViewerId = 'data', color?: string): void {
-    this.sendLogEntry('text', title, text, viewerId, color);
+  logText(title: string, text: string, viewerId?: ViewerId, color?: string): void;
+  logText(title: string, text: string, options: LogTextOptions): void;
+  logText(title: string, text: string, viewerIdOrOptions: ViewerId | LogTextOptions = 'data', color?: string): void {
+    if (!this.isOn(this.defaultLevel)) return;
+
+    const options = typeof viewerIdOrOptions === 'string' ? { viewerId: viewerIdOrOptions, color } : viewerIdOrOptions;
+    const data = options.lineNumbers ? numberLines(text, options.firstLine) : text;
+
+    this.sendLogEntry('text', title, data, options.viewerId ?? 'data', options.color);
+  }
+
+  /**
+   * Logs text with a given entry type and viewer, like LogCustomText in the
+   * .NET library. Entry types with a level (e.g. 'warning') are filtered by
+   * it; others by the session's default level.
+   */
+  logCustomText(type: LogEntryType, title: string, text?: string, viewerId?: ViewerId, color?: string): void {
+    this.sendLogEntry(type, title, text, viewerId, color);
+  }
+
+  /**
+   * Logs source code. The language is sent along for highlighting; the
+   * viewer is the closest one the console has for the language.
+   *
+   * @example
+   * ```typescript
+   * session.logSource('Query', print(query), 'graphql');
+   * ```
+   */
+  logSource(title: string, code: string, language: SourceLanguage, color?: string): void {
+    if (!this.isOn(this.defaultLevel)) return;
+
+    const message = this.createLogEntry('source', title, code, viewerForLanguage(language), color);
+    message.language = language;
+    this.send(stampMessage(message));
   }
 
   /**
    * Logs JSON data
    */
   logJson(title: string, data: unknown, color?: string): void {
-    const json = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+    if (!this.isOn(this.defaultLevel)) return;
+
+    const json = this.serializeValue(data);
     this.sendLogEntry('text', title, json, 'json', color);
   }
 
@@ -187,6 +391,189 @@ export class Session {
     }
   }
 
+  // ==================== Object Viewers ====================
+
+  /**
+   * Logs an object for the console's object inspector: its type, own
+   * fields and getter properties, in groups
+   */
+  logObjectInspector(title: string, obj: unknown, color?: string): void {
+    if (!this.isOn(this.defaultLevel)) return;
+
+    const context = new InspectorViewerContext();
+    context.startGroup('General');
+    context.appendKeyValue('Type', describeType(obj));
+
+    if (obj !== null && (typeof obj === 'object' || typeof obj === 'function')) {
+      const { fields, properties } = inspectMembers(obj);
+      if (fields.length > 0) {
+        context.startGroup('Fields');
+        for (const key of fields) {
+          context.appendKeyValue(key, this.formatItem(readMember(obj, key)));
+        }
+      }
+      if (properties.length > 0) {
+        context.startGroup('Properties');
+        for (const key of properties) {
+          context.appendKeyValue(key, this.formatItem(readMember(obj, key)));
+        }
+      }
+    } else {
+      context.appendKeyValue('Value', this.formatItem(obj));
+    }
+
+    this.sendLogEntry('object', title, context.toString(), context.viewerId, color);
+  }
+
+  /**
+   * Logs key/value pairs for the console's value list viewer
+   */
+  logValueList(
+    title: string,
+    values: Record<string, unknown> | Iterable<readonly [unknown, unknown]>,
+    color?: string
+  ): void {
+    if (!this.isOn(this.defaultLevel)) return;
+
+    const context = new ValueListViewerContext();
+    const entries = isIterable(values) ? values : Object.entries(values);
+    for (const [key, value] of entries) {
+      context.appendKeyValue(this.formatItem(key), this.formatItem(value));
+    }
+
+    this.sendLogEntry('text', title, context.toString(), context.viewerId, color);
+  }
+
+  /**
+   * Logs a Map or plain object for the console's value list viewer
+   */
+  logDictionary(title: string, dictionary: Map<unknown, unknown> | Record<string, unknown>, color?: string): void {
+    this.logValueList(title, dictionary, color);
+  }
+
+  /**
+   * Logs items for the console's list viewer, one per line
+   */
+  logList(title: string, items: Iterable<unknown>, color?: string): void {
+    if (!this.isOn(this.defaultLevel)) return;
+
+    const context = new ListViewerContext();
+    for (const item of items) {
+      context.appendLine(this.formatItem(item));
+    }
+
+    this.sendLogEntry('text', title, context.toString(), context.viewerId, color);
+  }
+
+  /**
+   * Logs rows for the console's table viewer. Accepts arrays of objects,
+   * arrays of arrays, Maps, plain objects and fetch responses (read from a
+   * clone, so the body stays available). Rows after the serializer's
+   * maxRows are left out.
+   *
+   * @example
+   * ```typescript
+   * session.logTable('Users', users, ['id', 'name', 'email']);
+   * await session.logTable('API result', await fetch('/api/users'));
+   * ```
+   */
+  logTable(title: string, rows: Response, columns?: string[], color?: string): Promise<void>;
+  logTable(title: string, rows: TableRows, columns?: string[], color?: string): void;
+  logTable(title: string, rows: TableRows | Response, columns?: string[], color?: string): void | Promise<void> {
+    if (!this.isOn(this.defaultLevel)) return isResponse(rows) ? Promise.resolve() : undefined;
+
+    if (isResponse(rows)) {
+      return rows.clone().json().then(
+        data => this.logTable(title, data as TableRows, columns, color),
+        error => this.logException(`${title}: response is not JSON`, error)
+      );
+    }
+
+    const serializer = this.parent?.serializer ?? defaultSerializer;
+    const table = toTable(rows, columns, serializer.maxRows, serializer.maxItems);
+    const context = new TableViewerContext();
+
+    context.appendHeader(table.columns);
+    for (const row of table.rows) {
+      context.beginRow();
+      for (const value of row) {
+        context.addRowEntry(value === undefined ? '' : this.formatItem(value));
+      }
+      context.endRow();
+    }
+    if (table.omitted !== 0) {
+      context.beginRow();
+      context.addRowEntry(table.omitted > 0 ? `… ${table.omitted} more` : '… more');
+      context.endRow();
+    }
+
+    this.sendLogEntry('text', title, context.toString(), context.viewerId, color);
+  }
+
+  // ==================== Binary Data ====================
+
+  /**
+   * Logs bytes for the console's hex viewer
+   *
+   * @example
+   * ```typescript
+   * socket.addEventListener('message', event => session.logBinary('Frame', event.data));
+   * ```
+   */
+  logBinary(title: string, data: ArrayBufferLike | ArrayBufferView | ArrayLike<number>, color?: string): void {
+    if (!this.isOn(this.defaultLevel)) return;
+
+    this.sendBytes('binary', title, toBytes(data), 'binary', color);
+  }
+
+  /**
+   * Logs part of an ArrayBuffer for the console's hex viewer
+   * @param offset First byte to log
+   * @param length Number of bytes to log; defaults to the rest of the buffer
+   */
+  logArrayBuffer(title: string, buffer: ArrayBufferLike, offset: number = 0, length?: number, color?: string): void {
+    if (!this.isOn(this.defaultLevel)) return;
+
+    this.sendBytes('binary', title, new Uint8Array(buffer, offset, length), 'binary', color);
+  }
+
+  /**
+   * Logs the content of a Blob or File for the console's hex viewer.
+   * The entry keeps its place in the log while the blob is read.
+   */
+  logBlob(title: string, blob: Blob, color?: string): Promise<void> {
+    if (!this.isOn(this.defaultLevel)) return Promise.resolve();
+
+    const message = stampMessage(this.createLogEntry('binary', title, undefined, 'binary', color));
+    return blob.arrayBuffer().then(
+      buffer => this.sendEncoded(message, encodeBase64(new Uint8Array(buffer))),
+      error => this.logException(`${title}: blob could not be read`, error)
+    );
+  }
+
+  /**
+   * Logs an image for the console's image viewer: a canvas, an OffscreenCanvas,
+   * an ImageBitmap, an image Blob or a data URL. Canvases and bitmaps are sent
+   * as PNG. The entry keeps its place in the log while the image is encoded.
+   *
+   * @example
+   * ```typescript
+   * await session.logImage('Chart', chartCanvas);
+   * ```
+   */
+  logImage(title: string, image: ImageSource, color?: string): Promise<void> {
+    if (!this.isOn(this.defaultLevel)) return Promise.resolve();
+
+    const message = stampMessage(this.createLogEntry('graphic', title, undefined, 'bitmap', color));
+    return encodeImage(image).then(
+      encoded => {
+        message.viewerId = viewerForImage(encoded.mimeType);
+        this.sendEncoded(message, encoded.base64);
+      },
+      error => this.logException(`${title}: image could not be encoded`, error)
+    );
+  }
+
   // ==================== Process Flow ====================
 
   /**
@@ -203,13 +590,107 @@ export class Session {
     this.sendProcessFlow('leaveMethod', methodName);
   }
 
+  /**
+   * Logs entering a thread, e.g. a Web Worker, Service Worker, iframe or worker_thread
+   * @param threadName Thread name (default: the current context, e.g. 'worker-2')
+   */
+  enterThread(threadName?: string): void {
+    this.sendProcessFlow('enterThread', threadName ?? currentThreadName());
+  }
+
+  /**
+   * Logs leaving a thread
+   * @param threadName Thread name (default: the current context, e.g. 'worker-2')
+   */
+  leaveThread(threadName?: string): void {
+    this.sendProcessFlow('leaveThread', threadName ?? currentThreadName());
+  }
+
+  /**
+   * Logs entering a process, e.g. a page load or a Node process
+   * @param processName Process name (default: the application name)
+   */
+  enterProcess(processName?: string): void {
+    this.sendProcessFlow('enterProcess', processName ?? this._appName);
+  }
+
+  /**
+   * Logs leaving a process
+   * @param processName Process name (default: the application name)
+   */
+  leaveProcess(processName?: string): void {
+    this.sendProcessFlow('leaveProcess', processName ?? this._appName);
+  }
+
   /**
    * Tracks a method execution (enter + leave)
-   * @returns A function to call when the method completes
+   * @returns A function to call when the method completes; the leave entry includes the elapsed time
    */
   trackMethod(methodName: string): () => void {
+    const start = monotonicNow();
     this.enterMethod(methodName);
-    return () => this.leaveMethod(methodName);
+    return () => this.sendProcessFlow('leaveMethod', methodName, { elapsed: monotonicNow() - start });
+  }
+
+  /**
+   * Runs a function between enterMethod and leaveMethod. For async functions,
+   * leave is logged when the returned promise settles. The leave entry carries
+   * the elapsed time and nesting depth; thrown errors are logged and rethrown.
+   * Inside a trace, the method runs in a child span.
+   *
+   * @example
+   * ```typescript
+   * const user = await session.track('loadUser', () => api.getUser(id));
+   * ```
+   * @returns The function's result
+   */
+  track<T>(methodName: string, fn: () => T): T {
+    if (!this.isOn(this.defaultLevel)) return fn();
+
+    const depth = currentDepth() + 1;
+    const start = monotonicNow();
+    const parent = currentTrace();
+    const span = parent ? childSpan(parent) : undefined;
+    let async = false;
+
+    // Also used for async continuations, which lose the span in runtimes without async context tracking
+    const inSpan = <R>(step: () => R): R => span ? runInTrace(span, step) : step();
+
+    const fail = (error: unknown) => inSpan(() => {
+      if (markErrorLogged(error)) {
+        const description = error instanceof Error ? error.message : String(error);
+        this.logException(`${methodName} failed: ${description}`, error);
+      }
+    });
+    const leave = () => inSpan(() => {
+      this.sendProcessFlow('leaveMethod', methodName, { depth, elapsed: monotonicNow() - start });
+    });
+
+    inSpan(() => this.sendProcessFlow('enterMethod', methodName, { depth }));
+
+    try {
+      const result = inSpan(() => runAtDepth(depth, fn));
+      if (isPromiseLike(result)) {
+        async = true;
+        return Promise.resolve(result).then(
+          value => {
+            leave();
+            return value;
+          },
+          error => {
+            fail(error);
+            leave();
+            throw error;
+          }
+        ) as T;
+      }
+      return result;
+    } catch (error) {
+      fail(error);
+      throw error;
+    } finally {
+      if (!async) leave();
+    }
   }
 
   // ==================== Watches ====================
@@ -218,6 +699,8 @@ export class Session {
    * Logs a watch value
    */
   watch(name: string, value: unknown): void {
+    if (!this.isOn(this.defaultLevel)) return;
+
     const { stringValue, watchType } = this.getWatchTypeAndValue(value);
     this.sendWatch(name, stringValue, watchType);
   }
@@ -254,16 +737,29 @@ export class Session {
    * Logs an object watch
    */
   watchObject(name: string, value: unknown): void {
+    if (!this.isOn(this.defaultLevel)) return;
+
     this.sendWatch(name, this.serializeValue(value), 'object');
   }
 
+  /**
+   * Sends the last value of every watch in this session again
+   */
+  resendWatches(): void {
+    if (!this._active) return;
+
+    for (const message of this.lastWatches.values()) {
+      this.send(stampMessage({ ...message }));
+    }
+  }
+
   // ==================== Internal Methods ====================
 
   /**
    * Core log method
    */
   private log(type: LogEntryType, title: string, data?: unknown, color?: string): void {
-    if (!this._active) return;
+    if (!this.isOn(levelForEntryType(type) ?? this.defaultLevel)) return;
 
     const dataStr = data !== undefined ? this.serializeValue(data) : undefined;
     const viewerId: ViewerId | undefined = dataStr ? 'data' : undefined;
@@ -281,51 +777,111 @@ export class Session {
     viewerId?: ViewerId,
     color?: string
   ): void {
-    if (!this._active) return;
+    if (!this.isOn(levelForEntryType(type) ?? this.defaultLevel)) return;
+
+    this.send(stampMessage(this.createLogEntry(type, title, data, viewerId, color)));
+  }
 
-    const message: LogEntryMessage = {
+  /**
+   * Sends binary data as a base64 log entry
+   */
+  private sendBytes(type: LogEntryType, title: string, bytes: Uint8Array, viewerId: ViewerId, color?: string): void {
+    this.sendEncoded(stampMessage(this.createLogEntry(type, title, undefined, viewerId, color)), encodeBase64(bytes));
+  }
+
+  /**
+   * Sends a stamped log entry with base64 data
+   */
+  private sendEncoded(message: LogEntryMessage, base64: string): void {
+    message.data = base64;
+    message.dataEncoding = 'base64';
+    this.send(message);
+  }
+
+  /**
+   * Sends a stamped message through the throttle
+   */
+  private send(message: Message): void {
+    const level = message.type === 'logEntry' ? levelForEntryType(message.logEntryType) : undefined;
+    this._throttle.submit(message, level ?? this.defaultLevel);
+  }
+
+  /**
+   * Sends a message through the connection, redacted if redaction is on
+   */
+  private deliver(message: Message): void {
+    const redactor = this.redactor;
+    this.connection.send(redactor ? redactor.redact(message) : message);
+  }
+
+  /**
+   * Creates an unstamped log entry message
+   */
+  private createLogEntry(
+    type: LogEntryType,
+    title: string,
+    data?: string,
+    viewerId?: ViewerId,
+    color?: string
+  ): LogEntryMessage {
+    return {
       type: 'logEntry',
       logEntryType: type,
       session: this._name,
       appName: this._appName,
+      hostName: this._hostName,
       title,
       data,
       viewerId,
-      color: color ?? this._defaultColor
+      color: color ?? this._defaultColor,
+      properties: this.properties
     };
-
-    this.connection.send(message);
   }
 
   /**
    * Sends a process flow message
    */
-  private sendProcessFlow(flowType: ProcessFlowType, title: string): void {
-    if (!this._active) return;
+  private sendProcessFlow(
+    flowType: ProcessFlowType,
+    title: string,
+    tracking?: Pick<ProcessFlowMessage, 'depth' | 'elapsed'>
+  ): void {
+    if (!this.isOn(this.defaultLevel)) return;
 
     const message: ProcessFlowMessage = {
       type: 'processFlow',
+      session: this._name,
+      appName: this._appName,
+      hostName: this._hostName,
       flowType,
-      title
+      title,
+      ...tracking,
+      properties: this.properties
     };
 
-    this.connection.send(message);
+    this.send(stampMessage(message));
   }
 
   /**
    * Sends a watch message
    */
   private sendWatch(name: string, value: string, watchType: WatchType): void {
-    if (!this._active) return;
+    if (!this.isOn(this.defaultLevel)) return;
 
     const message: WatchMessage = {
       type: 'watch',
+      session: this._name,
+      appName: this._appName,
+      hostName: this._hostName,
       name,
       value,
-      watchType
+      watchType,
+      properties: this.properties
     };
 
-    this.connection.send(message);
+    stampMessage(message);
+    this.lastWatches.set(name, message);
+    this.send(message);
   }
 
   /**
@@ -334,14 +890,14 @@ export class Session {
   private serializeValue(value: unknown): string {
     if (value === null) return 'null';
     if (value === undefined) return 'undefined';
-    if (typeof value === 'string') return value;
-    if (typeof value === 'number' || typeof value === 'boolean') return value.toString();
+    return (this.parent?.serializer ?? defaultSerializer).serialize(value);
+  }
 
-    try {
-      return JSON.stringify(value, null, 2);
-    } catch {
-      return String(value);
-    }
+  /**
+   * Formats a value for a single line of a list viewer
+   */
+  private formatItem(value: unknown): string {
+    return (this.parent?.serializer ?? defaultSerializer).serializeInline(value);
   }
 
   /**
@@ -371,3 +927,69 @@ export class Session {
     }
   }
 }
+
+/**
+ * Describes the type of a value, e.g. 'User', 'Array(3)' or 'number'
+ */
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `Array(${value.length})`;
+  if (typeof value === 'function') return `function ${value.name || '(anonymous)'}`;
+  if (typeof value !== 'object') return typeof value;
+
+  const proto = Object.getPrototypeOf(value);
+  return (proto?.constructor as { name?: string } | undefined)?.name || 'Object';
+}
+
+/**
+ * Splits an object's members into own data fields and getter properties,
+ * including getters defined by its classes
+ */
+function inspectMembers(obj: object): { fields: string[]; properties: string[] } {
+  const fields: string[] = [];
+  const properties: string[] = [];
+  const seen = new Set<string>();
+
+  for (let target: object | null = obj; target && target !== Object.prototype; target = Object.getPrototypeOf(target)) {
+    for (const key of Object.getOwnPropertyNames(target)) {
+      if (seen.has(key) || key === 'constructor') continue;
+
+      const descriptor = Object.getOwnPropertyDescriptor(target, key);
+      if (!descriptor) continue;
+
+      if (descriptor.get) {
+        seen.add(key);
+        properties.push(key);
+      } else if (target === obj && descriptor.enumerable && typeof descriptor.value !== 'function') {
+        seen.add(key);
+        fields.push(key);
+      }
+    }
+  }
+  return { fields, properties };
+}
+
+/**
+ * Reads a member, returning a marker if its getter throws
+ */
+function readMember(obj: object, key: string): unknown {
+  try {
+    return (obj as Record<string, unknown>)[key];
+  } catch (error) {
+    return `[Getter failed: ${(error as Error)?.message ?? error}]`;
+  }
+}
+
+/**
+ * Checks for a fetch Response
+ */
+function isResponse(value: unknown): value is Response {
+  return typeof Response !== 'undefined' && value instanceof Response;
+}
+
+/**
+ * Checks whether a value is iterable (Map, array of pairs, generator)
+ */
+function isIterable(value: object): value is Iterable<readonly [unknown, unknown]> {
+  return typeof (value as { [Symbol.iterator]?: unknown })[Symbol.iterator] === 'function';
+}
@@ -1,13 +1,52 @@
-import { WebSocketConnection, HttpConnection, type IConnection } from './connections';
+import {
+  WebSocketConnection,
+  HttpConnection,
+  TcpConnection,
+  FileConnection,
+  SilBufferConnection,
+  SilConnectionBase,
+  type IConnection
+} from './connections';
 import { Session } from './Session';
+import { isConnectionString, parseConnectionString, parseLevel } from './configuration';
+import { OfflineQueue, createOfflineStore } from './offline';
+import { SourceMapResolver } from './errors';
+import { Serializer } from './Serializer';
+import { Redactor } from './Redactor';
+import { getRuntime, type ContextStorage } from './runtime';
+import { currentThreadName, isWorkerThread } from './tracking';
+import { createTrace, currentTrace, runInTrace, setRootTrace } from './tracing';
+import { captureGlobals, type CaptureGlobalsOptions } from './globals';
+import { instrumentFetch, instrumentXhr, runInternal, type NetworkOptions } from './network';
 import type {
   SmartInspectOptions,
+  SmartInspectConfiguration,
+  SessionConfiguration,
+  ConnectionType,
   SmartInspectEvents,
   ConnectionState,
+  Level,
   ControlCommandType,
-  ControlCommandMessage
+  ControlCommandMessage,
+  InboundCommand,
+  OfflineQueueOptions,
+  SourceMapOptions,
+  ThrottleOptions,
+  ContextProperties,
+  TraceContext
 } from './types';
 
+/**
+ * Default connection URL per connection type
+ */
+const DEFAULT_URLS: Record<ConnectionType, string> = {
+  websocket: 'ws://localhost:4229',
+  http: 'http://localhost:5000/api/v1',
+  tcp: 'tcp://localhost:4228',
+  file: 'log.sil',
+  memory: 'memory'
+};
+
 /**
  * Main SmartInspect client class
  */
@@ -15,8 +54,24 @@ export class SmartInspect {
   private connection: IConnection;
   private sessions: Map<string, Session> = new Map();
   private _appName: string;
+  private _hostName: string;
   private _enabled: boolean = true;
-  private _connectionType: 'websocket' | 'http';
+  private _level: Level = 'debug';
+  private _defaultLevel: Level = 'message';
+  private _connectionType: ConnectionType;
+  private _url: string | undefined;
+  private sessionDefaults: SessionConfiguration = {};
+  private sessionConfigurations: Map<string, SessionConfiguration> = new Map();
+  private _offlineQueue: OfflineQueue | null = null;
+  private offlineQueueOptions: OfflineQueueOptions | undefined;
+  private _serializer: Serializer;
+  private _sourceMaps: SourceMapResolver | null = null;
+  private _redactor: Redactor;
+  private throttleOptions: ThrottleOptions | undefined;
+  private contextStorage: ContextStorage<ContextProperties> | null = null;
+  private _threadFlow: boolean;
+  private enteredThread: string | null = null;
+  private removeShutdownHandler: (() => void) | null = null;
 
   /**
    * Creates a new SmartInspect instance
@@ -25,35 +80,20 @@ export class SmartInspect {
    */
   constructor(appName: string, options?: SmartInspectOptions) {
     this._appName = appName || 'JavaScript App';
+    this._hostName = options?.hostName ?? options?.tcpOptions?.hostName ?? getRuntime().getMetadata().hostName;
     this._connectionType = options?.connectionType || 'websocket';
 
-    // Create appropriate connection based on type
-    if (this._connectionType === 'http') {
-      this.connection = new HttpConnection(options?.httpOptions);
-    } else {
-      const wsConnection = new WebSocketConnection();
+    if (options?.level !== undefined) this._level = options.level;
+    if (options?.defaultLevel !== undefined) this._defaultLevel = options.defaultLevel;
+    if (options?.offlineQueue) this.applyOfflineQueueOptions(options.offlineQueue);
+    this._threadFlow = options?.threadFlow ?? isWorkerThread();
+    this._serializer = new Serializer(options?.serializer);
+    if (options?.sourceMaps) this.applySourceMapOptions(options.sourceMaps);
+    this._redactor = new Redactor(options?.redaction);
+    this.throttleOptions = options?.throttle;
+    if (options?.trace) this.startTrace(options.trace === true ? undefined : options.trace);
 
-      // Apply WebSocket-specific options
-      if (options) {
-        if (options.autoReconnect !== undefined) {
-          wsConnection.autoReconnect = options.autoReconnect;
-        }
-        if (options.reconnectDelay !== undefined) {
-          wsConnection.reconnectDelay = options.reconnectDelay;
-        }
-        if (options.maxReconnectAttempts !== undefined) {
-          wsConnection.maxReconnectAttempts = options.maxReconnectAttempts;
-        }
-        if (options.bufferWhenDisconnected !== undefined) {
-          wsConnection.bufferWhenDisconnected = options.bufferWhenDisconnected;
-        }
-        if (options.maxBufferSize !== undefined) {
-          wsConnection.maxBufferSize = options.maxBufferSize;
-        }
-      }
-
-      this.connection = wsConnection;
-    }
+    this.connection = this.createConnection(this._connectionType, options);
   }
 
   /**
@@ -65,6 +105,27 @@ export class SmartInspect {
 
   set appName(value: string) {
     this._appName = value;
+    if (this.connection instanceof TcpConnection || this.connection instanceof SilConnectionBase) {
+      this.connection.appName = value;
+    }
+    for (const session of this.sessions.values()) {
+      session.appName = value;
+    }
+  }
+
+  /**
+   * Gets or sets the host name or instance label sent with every message,
+   * e.g. to tell several browser tabs of the same app apart
+   */
+  get hostName(): string {
+    return this._hostName;
+  }
+
+  set hostName(value: string) {
+    this._hostName = value;
+    for (const session of this.sessions.values()) {
+      session.hostName = value;
+    }
   }
 
   /**
@@ -83,12 +144,86 @@ export class SmartInspect {
   }
 
   /**
-   * Gets the connection type ('websocket' or 'http')
+   * Gets or sets the minimum log level. Entries below this level are
+   * dropped before serialization. Sessions may override it individually.
+   */
+  get level(): Level {
+    return this._level;
+  }
+
+  set level(value: Level) {
+    this._level = value;
+  }
+
+  /**
+   * Gets or sets the level used by methods without an inherent level,
+   * such as logObject, watches and process flow
    */
-  get connectionType(): 'websocket' | 'http' {
+  get defaultLevel(): Level {
+    return this._defaultLevel;
+  }
+
+  set defaultLevel(value: Level) {
+    this._defaultLevel = value;
+  }
+
+  /**
+   * Gets the serializer used for logged objects, watches and log data.
+   * Register formatters for your own classes here.
+   */
+  get serializer(): Serializer {
+    return this._serializer;
+  }
+
+  /**
+   * Gets the source map resolver used by logException, or null if source
+   * maps are not enabled
+   */
+  get sourceMaps(): SourceMapResolver | null {
+    return this._sourceMaps;
+  }
+
+  /**
+   * Gets the redaction rules applied to all sessions before messages are
+   * sent. Turned off until configured.
+   */
+  get redactor(): Redactor {
+    return this._redactor;
+  }
+
+  /**
+   * Gets or sets whether enterThread and leaveThread are logged on connect
+   * and disconnect (default: true in workers and worker_threads)
+   */
+  get threadFlow(): boolean {
+    return this._threadFlow;
+  }
+
+  set threadFlow(value: boolean) {
+    this._threadFlow = value;
+  }
+
+  /**
+   * Gets the connection type ('websocket', 'http', 'tcp', 'file' or 'memory')
+   */
+  get connectionType(): ConnectionType {
     return this._connectionType;
   }
 
+  /**
+   * Gets the underlying connection, e.g. to download a log from a SilBufferConnection
+   */
+  get currentConnection(): IConnection {
+    return this.connection;
+  }
+
+  /**
+   * Gets the persistent offline queue, if enabled via the offlineQueue option
+   */
+  get offlineQueue(): OfflineQueue | null {
+    return this._offlineQueue;
+  }
+
   /**
    * Gets the current connection state
    */
@@ -115,12 +250,17 @@ export class SmartInspect {
    * @param url Connection URL
    *   - WebSocket: 'ws://localhost:4229' (default)
    *   - HTTP: 'https://logs.example.com/api/v1'
+   *   - TCP: 'tcp://localhost:4228' (Node only)
+   *   - File: 'logs/app.sil' (Node only)
+   *   - Memory: ignored
    */
   async connect(url?: string): Promise<void> {
-    const defaultUrl = this._connectionType === 'http'
-      ? 'http://localhost:5000/api/v1'
-      : 'ws://localhost:4229';
-    return this.connection.connect(url || defaultUrl);
+    const defaultUrl = DEFAULT_URLS[this._connectionType];
+    if (url) {
+      this._url = url;
+    }
+    await this.connection.connect(this._url || defaultUrl);
+    this.enterThreadFlow();
   }
 
   /**
@@ -144,6 +284,10 @@ export class SmartInspect {
    * Disconnect from SmartInspect Console or Relay
    */
   disconnect(): void {
+    for (const session of this.sessions.values()) {
+      session.throttle.flush();
+    }
+    this.leaveThreadFlow();
     this.connection.disconnect();
   }
 
@@ -155,8 +299,10 @@ export class SmartInspect {
   addSession(name: string): Session {
     let session = this.sessions.get(name);
     if (!session) {
-      session = new Session(this.connection, name, this._appName);
+      session = new Session(this.connection, name, this._appName, this);
+      session.hostName = this._hostName;
       session.active = this._enabled;
+      this.applySessionConfiguration(session);
       this.sessions.set(name, session);
     }
     return session;
@@ -186,6 +332,507 @@ export class SmartInspect {
     return this.addSession('Main');
   }
 
+  /**
+   * Logs uncaught errors, unhandled promise rejections and console output.
+   * Console methods are forwarded at the matching level and still write to
+   * the console unless passThrough is false.
+   *
+   * @example
+   * ```typescript
+   * const release = si.captureGlobals({ console: ['warn', 'error'] });
+   * // ...
+   * release(); // restores the console and removes the handlers
+   * ```
+   * @returns A function that removes all hooks
+   */
+  captureGlobals(options?: CaptureGlobalsOptions): () => void {
+    return captureGlobals(options?.session ?? this.mainSession, options);
+  }
+
+  /**
+   * Logs every fetch request to the 'Network' session (or options.session):
+   * method, URL, status, timing and size, plus headers and text bodies if
+   * enabled. The library's own requests, such as the relay's /logs and
+   * /health calls, are never logged.
+   *
+   * @example
+   * ```typescript
+   * const release = si.instrumentFetch({ deny: ['/analytics'], headers: true, bodies: true });
+   * // ...
+   * release(); // restores the original fetch
+   * ```
+   * @returns A function that removes the instrumentation
+   */
+  instrumentFetch(options?: NetworkOptions): () => void {
+    return instrumentFetch(options?.session ?? this.addSession('Network'), options);
+  }
+
+  /**
+   * Logs every XMLHttpRequest to the 'Network' session (or options.session),
+   * like instrumentFetch
+   * @returns A function that removes the instrumentation
+   */
+  instrumentXhr(options?: NetworkOptions): () => void {
+    return instrumentXhr(options?.session ?? this.addSession('Network'), options);
+  }
+
+  // ==================== Context Properties ====================
+
+  /**
+   * Runs a function in a scope whose properties are added to every message
+   * logged within it, by any session of this instance. Scopes nest; inner
+   * properties replace outer ones with the same name. In Node.js the scope
+   * follows async calls (AsyncLocalStorage); elsewhere it ends at the first
+   * await.
+   * @returns The function's result
+   *
+   * @example
+   * ```typescript
+   * app.use((req, res, next) => si.pushContext({ requestId: req.id, route: req.path }, next));
+   * ```
+   */
+  pushContext<R>(properties: ContextProperties, fn: () => R): R {
+    const storage = this.getContextStorage();
+    return storage.run({ ...storage.get(), ...properties }, fn);
+  }
+
+  /**
+   * Gets the properties of the current pushContext() scope, or undefined outside any
+   */
+  currentContext(): ContextProperties | undefined {
+    return this.contextStorage?.get();
+  }
+
+  /**
+   * Gets the context scope storage, created on first use
+   */
+  private getContextStorage(): ContextStorage<ContextProperties> {
+    if (!this.contextStorage) {
+      this.contextStorage = getRuntime().createContextStorage<ContextProperties>();
+    }
+    return this.contextStorage;
+  }
+
+  // ==================== Tracing ====================
+
+  /**
+   * Starts a trace for the whole page, worker or process. Messages logged
+   * outside runTrace() carry its trace ID, and instrumented requests pass it
+   * on in traceparent headers.
+   * @param traceparent A W3C traceparent header to continue, e.g. rendered by
+   * the server into the page; a new trace ID is generated without it
+   * @returns The new trace
+   */
+  startTrace(traceparent?: string): TraceContext {
+    const trace = createTrace(traceparent);
+    setRootTrace(trace);
+    return trace;
+  }
+
+  /**
+   * Ends the trace started with startTrace()
+   */
+  endTrace(): void {
+    setRootTrace(undefined);
+  }
+
+  /**
+   * Runs a function in a new trace, e.g. for one user action or incoming
+   * request. Tracked methods inside run in child spans. Like pushContext(),
+   * the trace follows async calls in Node.js and ends at the first await
+   * elsewhere.
+   * @param traceparent A W3C traceparent header to continue, e.g. of an incoming request
+   * @returns The function's result
+   *
+   * @example
+   * ```typescript
+   * button.onclick = () => si.runTrace(() => si.mainSession.track('save', saveDocument));
+   * ```
+   */
+  runTrace<R>(fn: () => R, traceparent?: string): R {
+    return runInTrace(createTrace(traceparent), fn);
+  }
+
+  /**
+   * Gets the span the caller runs in, or undefined outside any trace
+   */
+  get trace(): TraceContext | undefined {
+    return currentTrace();
+  }
+
+  // ==================== Thread Flow ====================
+
+  /**
+   * Logs enterThread for the current worker once per connect, and
+   * leaveThread when the worker or process shuts down
+   */
+  private enterThreadFlow(): void {
+    if (!this._threadFlow || this.enteredThread !== null) return;
+
+    this.enteredThread = currentThreadName();
+    this.mainSession.enterThread(this.enteredThread);
+
+    // Not onShutdown: a hidden tab comes back, an unloaded page doesn't
+    const runtime = getRuntime();
+    const leave = () => this.leaveThreadFlow();
+    this.removeShutdownHandler = runtime.onUnload ? runtime.onUnload(leave) : runtime.onShutdown(leave);
+  }
+
+  /**
+   * Logs leaveThread if enterThread was logged
+   */
+  private leaveThreadFlow(): void {
+    if (this.enteredThread === null) return;
+
+    this.mainSession.leaveThread(this.enteredThread);
+    this.enteredThread = null;
+    this.removeShutdownHandler?.();
+    this.removeShutdownHandler = null;
+  }
+
+  // ==================== Configuration ====================
+
+  /**
+   * Loads configuration and applies it to this instance. Can be called
+   * again at runtime; sessions keep working across connection changes.
+   *
+   * @param source One of:
+   *   - A connection string, e.g. 'ws(host=localhost,port=4229,reconnect=true)'
+   *   - A URL returning a JSON configuration document
+   *   - A configuration object
+   *
+   * @example
+   * ```typescript
+   * await si.loadConfiguration('http(endpoint=https://logs.example.com/api/v1,apikey=secret)');
+   * await si.loadConfiguration('/smartinspect/config.json');
+   * ```
+   */
+  async loadConfiguration(source: string | SmartInspectConfiguration): Promise<void> {
+    const config = typeof source === 'string'
+      ? await this.resolveConfiguration(source)
+      : source;
+    await this.applyConfiguration(config);
+  }
+
+  /**
+   * Resolves a connection string or configuration URL to a configuration object
+   */
+  private async resolveConfiguration(source: string): Promise<SmartInspectConfiguration> {
+    if (isConnectionString(source)) {
+      return parseConnectionString(source);
+    }
+
+    const response = await runInternal(() => fetch(source, {
+      method: 'GET',
+      headers: { 'Accept': 'application/json' },
+      cache: 'no-store'
+    }));
+
+    if (!response.ok) {
+      throw new Error(`Failed to load configuration: ${response.status}`);
+    }
+
+    return await response.json() as SmartInspectConfiguration;
+  }
+
+  /**
+   * Applies a configuration object
+   */
+  private async applyConfiguration(config: SmartInspectConfiguration): Promise<void> {
+    // Explicit fields take precedence over the embedded connection string
+    if (config.connections) {
+      const parsed = parseConnectionString(config.connections);
+      config = {
+        ...parsed,
+        ...config,
+        httpOptions: { ...parsed.httpOptions, ...config.httpOptions },
+        tcpOptions: { ...parsed.tcpOptions, ...config.tcpOptions },
+        fileOptions: { ...parsed.fileOptions, ...config.fileOptions }
+      };
+    }
+    const type = config.connectionType !== undefined
+      ? this.requireConnectionType(config.connectionType)
+      : this._connectionType;
+
+    if (config.appName !== undefined) this.appName = config.appName;
+    if (config.hostName !== undefined) this.hostName = config.hostName;
+    if (config.level !== undefined) this.level = this.requireLevel(config.level);
+    if (config.defaultLevel !== undefined) this.defaultLevel = this.requireLevel(config.defaultLevel);
+    if (config.enabled !== undefined) this.enabled = config.enabled;
+    if (config.threadFlow !== undefined) this.threadFlow = config.threadFlow;
+    if (config.serializer !== undefined) this._serializer.configure(config.serializer);
+    if (config.sourceMaps !== undefined) this.applySourceMapOptions(config.sourceMaps);
+    if (config.redaction !== undefined) this._redactor.configure(config.redaction);
+    if (config.throttle !== undefined) this.throttleOptions = config.throttle;
+    if (config.trace === false) {
+      this.endTrace();
+    } else if (config.trace !== undefined) {
+      this.startTrace(config.trace === true ? undefined : config.trace);
+    }
+    if (config.offlineQueue !== undefined) {
+      this.applyOfflineQueueOptions(config.offlineQueue);
+      this.attachOfflineQueue(this.connection);
+    }
+
+    if (config.sessionDefaults) {
+      this.sessionDefaults = { ...this.sessionDefaults, ...config.sessionDefaults };
+    }
+    if (config.sessions) {
+      for (const [name, sessionConfig] of Object.entries(config.sessions)) {
+        const existing = this.sessionConfigurations.get(name);
+        this.sessionConfigurations.set(name, { ...existing, ...sessionConfig });
+      }
+    }
+    for (const session of this.sessions.values()) {
+      this.applySessionConfiguration(session);
+    }
+
+    const wasActive = this.connection.connectionState !== 'disconnected';
+    const urlChanged = config.url !== undefined && config.url !== this._url;
+    let replaced = false;
+
+    if (type !== this._connectionType) {
+      this.replaceConnection(type, config);
+      replaced = true;
+    } else if (this.connection instanceof HttpConnection) {
+      this.connection.configure(config.httpOptions);
+    } else if (this.connection instanceof WebSocketConnection) {
+      this.applyReconnectOptions(this.connection, config);
+    } else if (this.connection instanceof TcpConnection) {
+      this.applyReconnectOptions(this.connection, config);
+      if (config.tcpOptions?.hostName !== undefined) this.connection.hostName = config.tcpOptions.hostName;
+      if (config.tcpOptions?.timeout !== undefined) this.connection.timeout = config.tcpOptions.timeout;
+    } else if (this.connection instanceof SilConnectionBase) {
+      this.connection.configure(config.fileOptions);
+    }
+
+    if (config.url !== undefined) {
+      this._url = config.url;
+    } else if (replaced) {
+      // The previous URL belongs to the previous connection type
+      this._url = undefined;
+    }
+
+    if ((replaced || urlChanged) && wasActive) {
+      await this.connect();
+    } else if (config.autoConnect && this.connection.connectionState === 'disconnected') {
+      await this.connect();
+    }
+  }
+
+  /**
+   * Applies session defaults and per-session configuration to a session
+   */
+  private applySessionConfiguration(session: Session): void {
+    const config = { ...this.sessionDefaults, ...this.sessionConfigurations.get(session.name) };
+
+    if (config.active !== undefined) session.active = config.active;
+    if (config.level !== undefined) session.level = this.requireLevel(config.level);
+    if (config.color !== undefined) session.defaultColor = config.color;
+    if (config.redaction !== undefined) session.redactor = new Redactor(config.redaction);
+
+    const throttle = config.throttle ?? this.throttleOptions;
+    if (throttle !== undefined) session.throttle.configure(throttle);
+  }
+
+  /**
+   * Validates a level coming from external configuration
+   */
+  private requireLevel(value: string): Level {
+    const level = parseLevel(value);
+    if (!level) {
+      throw new Error(`Invalid level: ${value}`);
+    }
+    return level;
+  }
+
+  /**
+   * Validates a connection type coming from external configuration
+   */
+  private requireConnectionType(value: string): ConnectionType {
+    if (!Object.prototype.hasOwnProperty.call(DEFAULT_URLS, value)) {
+      throw new Error(`Invalid connection type: ${value}`);
+    }
+    return value as ConnectionType;
+  }
+
+  /**
+   * Creates a connection of the given type
+   */
+  private createConnection(type: ConnectionType, options?: SmartInspectOptions): IConnection {
+    if (type === 'http') {
+      const httpConnection = new HttpConnection(options?.httpOptions);
+      httpConnection.redactor = this._redactor;
+      this.attachOfflineQueue(httpConnection);
+      return httpConnection;
+    }
+
+    if (type === 'file' || type === 'memory') {
+      const fileConnection = type === 'file'
+        ? new FileConnection(options?.fileOptions)
+        : new SilBufferConnection(options?.fileOptions);
+      fileConnection.appName = this._appName;
+      return fileConnection;
+    }
+
+    if (type === 'tcp') {
+      const tcpConnection = new TcpConnection(options?.tcpOptions);
+      tcpConnection.appName = this._appName;
+      if (options) {
+        this.applyReconnectOptions(tcpConnection, options);
+      }
+      this.attachOfflineQueue(tcpConnection);
+      return tcpConnection;
+    }
+
+    const wsConnection = new WebSocketConnection();
+    if (options) {
+      this.applyReconnectOptions(wsConnection, options);
+    }
+    wsConnection.onCommand = (command) => this.handleCommand(command);
+    this.attachOfflineQueue(wsConnection);
+    return wsConnection;
+  }
+
+  /**
+   * Creates the offline queue, or reconfigures it if it keeps the same store.
+   * Errors from the store are reported through onError.
+   */
+  private applyOfflineQueueOptions(options: OfflineQueueOptions): void {
+    const previous = this.offlineQueueOptions;
+    this.offlineQueueOptions = options;
+
+    if (
+      this._offlineQueue && previous &&
+      previous.name === options.name &&
+      previous.storage === options.storage &&
+      previous.path === options.path
+    ) {
+      this._offlineQueue.configure(options);
+      return;
+    }
+
+    const store = createOfflineStore(options, options.name ?? this._appName);
+    this._offlineQueue = store ? new OfflineQueue(store, options) : null;
+    if (this._offlineQueue) {
+      this._offlineQueue.onError = (error) => this.connection.events.onError?.(error);
+    }
+  }
+
+  /**
+   * Enables source map resolution, or adds to the existing configuration.
+   * Errors loading maps are reported through onError.
+   */
+  private applySourceMapOptions(options: SourceMapOptions): void {
+    if (!this._sourceMaps) {
+      this._sourceMaps = new SourceMapResolver();
+      this._sourceMaps.onError = (error) => this.connection.events.onError?.(error);
+    }
+    this._sourceMaps.configure(options);
+  }
+
+  /**
+   * Hands the offline queue to connections that support one. The queue
+   * belongs to this instance, so it survives connection replacement.
+   */
+  private attachOfflineQueue(connection: IConnection): void {
+    if (
+      connection instanceof WebSocketConnection ||
+      connection instanceof HttpConnection ||
+      connection instanceof TcpConnection
+    ) {
+      connection.offlineQueue = this._offlineQueue;
+    }
+  }
+
+  /**
+   * Applies reconnect and buffering options (WebSocket and TCP)
+   */
+  private applyReconnectOptions(
+    wsConnection: WebSocketConnection | TcpConnection,
+    options: SmartInspectOptions
+  ): void {
+    if (options.autoReconnect !== undefined) {
+      wsConnection.autoReconnect = options.autoReconnect;
+    }
+    if (options.reconnectDelay !== undefined) {
+      wsConnection.reconnectDelay = options.reconnectDelay;
+    }
+    if (options.maxReconnectAttempts !== undefined) {
+      wsConnection.maxReconnectAttempts = options.maxReconnectAttempts;
+    }
+    if (options.bufferWhenDisconnected !== undefined) {
+      wsConnection.bufferWhenDisconnected = options.bufferWhenDisconnected;
+    }
+    if (options.maxBufferSize !== undefined) {
+      wsConnection.maxBufferSize = options.maxBufferSize;
+    }
+  }
+
+  /**
+   * Replaces the connection with a new one of a different type,
+   * carrying over event handlers and rebinding all sessions
+   */
+  private replaceConnection(type: ConnectionType, options: SmartInspectOptions): void {
+    const previous = this.connection;
+    const events = previous.events;
+
+    previous.disconnect();
+
+    this.connection = this.createConnection(type, options);
+    this.connection.events = events;
+    this._connectionType = type;
+
+    for (const session of this.sessions.values()) {
+      session.connection = this.connection;
+    }
+  }
+
+  // ==================== Console Commands ====================
+
+  /**
+   * Applies a command received from the console and raises the matching event
+   */
+  private handleCommand(command: InboundCommand): void {
+    const events = this.connection.events;
+
+    switch (command.type) {
+      case 'setLevel':
+        if (command.session !== undefined) {
+          const session = this.sessions.get(command.session);
+          if (!session) return;
+          session.level = command.level;
+        } else {
+          this.level = command.level;
+        }
+        events.onLevelChange?.(command.level, command.session);
+        break;
+
+      case 'setSessionActive':
+        if (command.session !== undefined) {
+          const session = this.sessions.get(command.session);
+          if (!session) return;
+          session.active = command.active;
+        } else {
+          this.enabled = command.active;
+        }
+        events.onSessionActiveChange?.(command.active, command.session);
+        break;
+
+      case 'requestWatches':
+        for (const session of this.sessions.values()) {
+          session.resendWatches();
+        }
+        events.onWatchesRequested?.();
+        break;
+
+      case 'clearAll':
+        this.clearAll();
+        events.onClearAll?.();
+        break;
+    }
+  }
+
   // ==================== Control Commands ====================
 
   /**
@@ -0,0 +1,299 @@
+import { getRuntime, type TimerHandle } from './runtime';
+import { monotonicNow, stampMessage } from './stamps';
+import type { Level, LogEntryMessage, Message, ThrottleOptions, WatchMessage } from './types';
+
+/**
+ * Counts of messages held back since the last report
+ */
+interface ThrottleCounts {
+  rateLimited: number;
+  sampled: number;
+  coalesced: number;
+}
+
+/**
+ * Limits the messages of one session: samples them per level, collapses
+ * identical consecutive log entries, sends at most one value per watch and
+ * interval, and drops what exceeds the rate limit (a token bucket). Dropped
+ * messages are reported as a warning every report interval. Turned off until
+ * options are given.
+ *
+ * @example
+ * ```typescript
+ * si.getSession('Render')!.throttle.configure({ rate: 50, sampling: { debug: 0.1 }, dedupe: true });
+ * ```
+ */
+export class Throttle {
+  private send: (message: Message) => void;
+  private tokens: number = 0;
+  private lastRefill: number = 0;
+  private lastEntry: LogEntryMessage | null = null;
+  private lastEntryKey: string | null = null;
+  private repeats: number = 0;
+  private pendingWatches: Map<string, WatchMessage> = new Map();
+  private watchesSent: Set<string> = new Set();
+  private watchTimer: TimerHandle | null = null;
+  private reportTimer: TimerHandle | null = null;
+  private counts: ThrottleCounts = { rateLimited: 0, sampled: 0, coalesced: 0 };
+  private header: Pick<LogEntryMessage, 'session' | 'appName' | 'hostName'> | null = null;
+
+  // Configuration
+  public enabled: boolean = false;
+  public rate: number = 0;
+  public burst: number = 0;
+  public sampling: Partial<Record<Level, number>> = {};
+  public dedupe: boolean = false;
+  public watchInterval: number = 0;
+  public reportInterval: number = 10000;
+
+  /**
+   * Creates a new Throttle
+   * @param send Sends a message that passed, e.g. through the session's connection
+   * @param options Throttle options; throttling stays off without them
+   */
+  constructor(send: (message: Message) => void, options?: ThrottleOptions) {
+    this.send = send;
+    if (options) {
+      this.configure(options);
+    }
+  }
+
+  /**
+   * Apply options and turn throttling on, unless enabled is false.
+   * Can be called again at runtime.
+   */
+  configure(options: ThrottleOptions): void {
+    this.enabled = options.enabled ?? true;
+    if (options.rate !== undefined) this.rate = options.rate;
+    if (options.burst !== undefined || options.rate !== undefined) {
+      this.burst = options.burst ?? this.rate;
+      this.tokens = this.burst;
+      this.lastRefill = monotonicNow();
+    }
+    if (options.sampling !== undefined) this.sampling = options.sampling;
+    if (options.dedupe !== undefined) this.dedupe = options.dedupe;
+    if (options.watchInterval !== undefined) this.watchInterval = options.watchInterval;
+    if (options.reportInterval !== undefined) this.reportInterval = options.reportInterval;
+
+    if (!this.enabled) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Sends a stamped message now, later or not at all
+   * @param message The message
+   * @param level Level the message was logged at, for sampling
+   */
+  submit(message: Message, level: Level): void {
+    if (!this.enabled) {
+      this.send(message);
+      return;
+    }
+
+    if (message.type !== 'control') {
+      this.header = { session: message.session ?? '', appName: message.appName, hostName: message.hostName };
+    }
+
+    const fraction = this.sampling[level];
+    if (fraction !== undefined && fraction < 1 && Math.random() >= fraction) {
+      this.counts.sampled++;
+      this.startReporting();
+      return;
+    }
+
+    if (message.type === 'watch' && this.watchInterval > 0) {
+      this.submitWatch(message);
+      return;
+    }
+
+    if (this.dedupe && message.type === 'logEntry') {
+      const key = entryKey(message);
+      if (key === this.lastEntryKey) {
+        this.repeats++;
+        this.startReporting();
+        return;
+      }
+      this.sendRepeats();
+      this.lastEntry = message;
+      this.lastEntryKey = key;
+    } else {
+      this.endRepeats();
+    }
+
+    this.emit(message);
+  }
+
+  /**
+   * Sends held back watch values, summarizes repeats and reports dropped
+   * messages right away, e.g. before disconnecting
+   */
+  flush(): void {
+    this.flushWatches();
+    this.report();
+    this.lastEntry = null;
+    this.lastEntryKey = null;
+    this.watchesSent.clear();
+
+    if (this.watchTimer !== null) {
+      getRuntime().clearInterval(this.watchTimer);
+      this.watchTimer = null;
+    }
+    this.stopReporting();
+  }
+
+  /**
+   * Sends the first value of a watch in an interval right away; later
+   * values replace each other until the interval ends. Watches sent this
+   * way are bounded by the interval, so the rate limit does not apply.
+   */
+  private submitWatch(message: WatchMessage): void {
+    if (!this.watchesSent.has(message.name)) {
+      this.watchesSent.add(message.name);
+      this.endRepeats();
+      this.send(message);
+    } else {
+      if (this.pendingWatches.has(message.name)) {
+        this.counts.coalesced++;
+        this.startReporting();
+      }
+      this.pendingWatches.set(message.name, message);
+    }
+
+    if (this.watchTimer === null) {
+      this.watchTimer = getRuntime().setInterval(() => this.flushWatches(), this.watchInterval);
+    }
+  }
+
+  /**
+   * Sends the latest value of each held back watch; stops the timer once
+   * no watches arrive within an interval
+   */
+  private flushWatches(): void {
+    if (this.pendingWatches.size === 0 && this.watchTimer !== null) {
+      getRuntime().clearInterval(this.watchTimer);
+      this.watchTimer = null;
+    }
+
+    const pending = [...this.pendingWatches.values()];
+    this.pendingWatches.clear();
+    this.watchesSent = new Set(pending.map(message => message.name));
+    if (pending.length > 0) {
+      this.endRepeats();
+    }
+    for (const message of pending) {
+      this.send(message);
+    }
+  }
+
+  /**
+   * Sends a message if the rate limit allows
+   */
+  private emit(message: Message): void {
+    if (this.rate > 0 && !this.takeToken()) {
+      this.counts.rateLimited++;
+      this.startReporting();
+      return;
+    }
+    this.send(message);
+  }
+
+  /**
+   * Takes a token from the bucket, refilled at the configured rate
+   */
+  private takeToken(): boolean {
+    const now = monotonicNow();
+    this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefill) * this.rate / 1000);
+    this.lastRefill = now;
+
+    if (this.tokens < 1) return false;
+    this.tokens--;
+    return true;
+  }
+
+  /**
+   * Sends the last log entry again, titled with how often it was repeated.
+   * The entry stays the last one, so further repeats are still collapsed.
+   */
+  private sendRepeats(): void {
+    if (this.repeats === 0 || !this.lastEntry) return;
+
+    const title = `${this.lastEntry.title} (repeated ${this.repeats} ${this.repeats === 1 ? 'time' : 'times'})`;
+    this.repeats = 0;
+    this.send(stampMessage({ ...this.lastEntry, title }));
+  }
+
+  /**
+   * Ends a run of identical log entries when another message goes out in
+   * between, so only entries that are consecutive on the wire are collapsed
+   */
+  private endRepeats(): void {
+    this.sendRepeats();
+    this.lastEntry = null;
+    this.lastEntryKey = null;
+  }
+
+  /**
+   * Summarizes repeats and sends a warning with the messages dropped since the last report
+   */
+  private report(): void {
+    this.sendRepeats();
+
+    const { rateLimited, sampled, coalesced } = this.counts;
+    if (rateLimited + sampled + coalesced === 0 || !this.header) return;
+
+    const details: string[] = [];
+    if (rateLimited > 0) details.push(`${rateLimited} over the rate limit`);
+    if (sampled > 0) details.push(`${sampled} sampled out`);
+    if (coalesced > 0) details.push(`${coalesced} watch values replaced`);
+    this.counts = { rateLimited: 0, sampled: 0, coalesced: 0 };
+
+    const message: LogEntryMessage = {
+      type: 'logEntry',
+      logEntryType: 'warning',
+      ...this.header,
+      title: `Throttled ${rateLimited + sampled + coalesced} messages: ${details.join(', ')}`
+    };
+    this.send(stampMessage(message));
+  }
+
+  /**
+   * Starts the report timer; it stops itself once there is nothing to report
+   */
+  private startReporting(): void {
+    if (this.reportTimer !== null) return;
+
+    this.reportTimer = getRuntime().setInterval(() => {
+      const idle = this.repeats === 0 &&
+        this.counts.rateLimited + this.counts.sampled + this.counts.coalesced === 0;
+      if (idle) {
+        this.stopReporting();
+      } else {
+        this.report();
+      }
+    }, this.reportInterval);
+  }
+
+  private stopReporting(): void {
+    if (this.reportTimer !== null) {
+      getRuntime().clearInterval(this.reportTimer);
+      this.reportTimer = null;
+    }
+  }
+}
+
+/**
+ * Gets what makes two log entries identical, ignoring their stamps
+ */
+function entryKey(message: LogEntryMessage): string {
+  return JSON.stringify([
+    message.logEntryType,
+    message.title,
+    message.data,
+    message.dataEncoding,
+    message.viewerId,
+    message.color,
+    message.language,
+    message.properties
+  ]);
+}
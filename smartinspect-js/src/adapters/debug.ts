@@ -0,0 +1,88 @@
+import type { SmartInspect } from '../SmartInspect';
+import { logRecord, sessionResolver, splitArguments, type AdapterOptions } from './shared';
+
+/**
+ * Options for forwardDebug()
+ */
+export interface DebugAdapterOptions extends AdapterOptions {
+  /** Keep writing to stderr or the console as well (default: true) */
+  passThrough?: boolean;
+}
+
+/** A logger created by debug('namespace') */
+interface DebugInstance {
+  namespace: string;
+}
+
+/**
+ * The parts of the debug module the adapter uses
+ */
+export interface DebugModule {
+  /** Writes a formatted call */
+  log: (this: DebugInstance, ...args: unknown[]) => void;
+  /** Adds the namespace, colors and time difference to a call's arguments */
+  formatArgs: (this: DebugInstance, args: unknown[]) => void;
+}
+
+/**
+ * Forwards output of the debug module to SmartInspect sessions, one per
+ * namespace. Calls are logged as debug entries with the message as title and
+ * object arguments as data, shown in the JSON viewer. Only enabled
+ * namespaces are logged (see DEBUG or debug.enable()), and loggers with their
+ * own log function are left out.
+ *
+ * @example
+ * ```typescript
+ * import createDebug from 'debug';
+ *
+ * createDebug.enable('app:*');
+ * const release = forwardDebug(createDebug, si);
+ * createDebug('app:db')('Query took %dms', 42);  // logged to the 'app:db' session
+ * // ...
+ * release(); // restores debug's log and formatArgs
+ * ```
+ * @returns A function that removes the adapter
+ */
+export function forwardDebug(createDebug: DebugModule, si: SmartInspect, options: DebugAdapterOptions = {}): () => void {
+  const sessionFor = sessionResolver(si, options);
+  const passThrough = options.passThrough ?? true;
+  const originalLog = createDebug.log;
+  const originalFormatArgs = createDebug.formatArgs;
+
+  // debug formats a call and then writes it; the arguments are kept from
+  // before the namespace and colors are added to log them plainly
+  let pending: { instance: DebugInstance; args: unknown[] } | undefined;
+
+  const formatArgs = function (this: DebugInstance, args: unknown[]): void {
+    pending = { instance: this, args: [...args] };
+    originalFormatArgs.call(this, args);
+  };
+
+  const log = function (this: DebugInstance, ...args: unknown[]): void {
+    const call = pending;
+    pending = undefined;
+    if (call && call.instance === this) {
+      const { title, fields } = splitArguments(call.args);
+      logRecord(si, sessionFor(this.namespace), 'debug', title, fields);
+    }
+    if (passThrough) {
+      originalLog.apply(this, args);
+    }
+  };
+
+  createDebug.formatArgs = formatArgs;
+  createDebug.log = log;
+
+  let disposed = false;
+  return () => {
+    if (disposed) return;
+    disposed = true;
+    // Leave the functions alone if someone else replaced them since
+    if (createDebug.formatArgs === formatArgs) {
+      createDebug.formatArgs = originalFormatArgs;
+    }
+    if (createDebug.log === log) {
+      createDebug.log = originalLog;
+    }
+  };
+}
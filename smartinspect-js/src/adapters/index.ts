@@ -0,0 +1,5 @@
+export { createPinoDestination, type PinoAdapterOptions, type PinoDestination } from './pino';
+export { createWinstonTransport, type WinstonAdapterOptions, type WinstonTransportClass } from './winston';
+export { forwardLoglevel, type LoglevelAdapterOptions, type LoglevelLogger } from './loglevel';
+export { forwardDebug, type DebugAdapterOptions, type DebugModule } from './debug';
+export type { AdapterOptions } from './shared';
@@ -0,0 +1,89 @@
+import type { SmartInspect } from '../SmartInspect';
+import { entryTypeForLevelName, logRecord, sessionResolver, splitArguments, type AdapterOptions } from './shared';
+
+/**
+ * Options for forwardLoglevel()
+ */
+export interface LoglevelAdapterOptions extends AdapterOptions {
+  /** Keep writing to the console as well (default: true) */
+  passThrough?: boolean;
+}
+
+type LogMethod = (...args: unknown[]) => void;
+
+/** A loglevel method factory, which builds each log method of a logger */
+type MethodFactory = (methodName: string, level: number, loggerName: string | symbol | undefined) => LogMethod;
+
+/**
+ * The parts of the loglevel root logger the adapter uses
+ */
+export interface LoglevelLogger {
+  methodFactory: MethodFactory;
+  getLevel(): number;
+  setLevel(level: number): void;
+  /** Rebuilds the methods of the logger and its named loggers (loglevel 1.9+) */
+  rebuild?(): void;
+}
+
+/**
+ * Forwards loglevel calls to SmartInspect sessions by installing a method
+ * factory plugin. The method becomes the entry type, the name of a logger
+ * from log.getLogger() the session, and object arguments the data, shown in
+ * the JSON viewer. Named loggers created before loglevel 1.9 keep the
+ * methods they had; install the adapter first there.
+ *
+ * @example
+ * ```typescript
+ * import log from 'loglevel';
+ *
+ * const release = forwardLoglevel(log, si);
+ * log.getLogger('auth').warn('Token expires soon', { userId });
+ * // ...
+ * release(); // restores the previous method factory
+ * ```
+ * @returns A function that removes the adapter
+ */
+export function forwardLoglevel(log: LoglevelLogger, si: SmartInspect, options: LoglevelAdapterOptions = {}): () => void {
+  const sessionFor = sessionResolver(si, options);
+  const passThrough = options.passThrough ?? true;
+  const original = log.methodFactory;
+
+  const factory: MethodFactory = (methodName, level, loggerName) => {
+    const method = original(methodName, level, loggerName);
+    const type = entryTypeForLevelName(methodName);
+    const name = typeof loggerName === 'symbol' ? loggerName.description : loggerName;
+
+    return function (this: unknown, ...args: unknown[]) {
+      const { title, fields } = splitArguments(args);
+      logRecord(si, sessionFor(name), type, title, fields);
+      if (passThrough) {
+        method.apply(this, args);
+      }
+    };
+  };
+
+  log.methodFactory = factory;
+  rebuild(log);
+
+  let disposed = false;
+  return () => {
+    if (disposed) return;
+    disposed = true;
+    // Leave the factory alone if another plugin replaced it since
+    if (log.methodFactory === factory) {
+      log.methodFactory = original;
+      rebuild(log);
+    }
+  };
+}
+
+/**
+ * Applies a new method factory to existing loggers
+ */
+function rebuild(log: LoglevelLogger): void {
+  if (log.rebuild) {
+    log.rebuild();
+  } else {
+    log.setLevel(log.getLevel());
+  }
+}
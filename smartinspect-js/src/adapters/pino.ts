@@ -0,0 +1,107 @@
+import type { SmartInspect } from '../SmartInspect';
+import type { LogEntryType } from '../types';
+import { entryTypeForLevelName, logRecord, sessionResolver, type AdapterOptions } from './shared';
+
+/**
+ * Options for createPinoDestination()
+ */
+export interface PinoAdapterOptions extends AdapterOptions {
+  /** Field holding the logger name, which selects the session (default: 'name') */
+  nameKey?: string;
+  /** Field holding the message, as pino's messageKey (default: 'msg') */
+  messageKey?: string;
+}
+
+/**
+ * A pino destination: pino writes each record as a JSON line, the browser
+ * build as an object
+ */
+export interface PinoDestination {
+  write(record: string | object): void;
+}
+
+/** Record fields that are not sent as data */
+const PINO_FIELDS = ['level', 'time', 'pid', 'hostname'];
+
+/**
+ * Creates a pino destination that logs records to SmartInspect sessions.
+ * The level becomes the entry type, the logger name the session (e.g.
+ * set with logger.child({ name: 'db' })) and other fields the data, shown in
+ * the JSON viewer.
+ *
+ * @example
+ * ```typescript
+ * const logger = pino({ name: 'api' }, createPinoDestination(si));
+ *
+ * // Also write to stdout
+ * const logger = pino({ name: 'api' }, pino.multistream([process.stdout, createPinoDestination(si)]));
+ *
+ * // In the browser
+ * const logger = pino({ browser: { write: createPinoDestination(si).write } });
+ * ```
+ */
+export function createPinoDestination(si: SmartInspect, options: PinoAdapterOptions = {}): PinoDestination {
+  const sessionFor = sessionResolver(si, options);
+  const nameKey = options.nameKey ?? 'name';
+  const messageKey = options.messageKey ?? 'msg';
+
+  const logObject = (record: Record<string, unknown>): void => {
+    const fields: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+      if (key !== nameKey && key !== messageKey && !PINO_FIELDS.includes(key)) {
+        fields[key] = value;
+      }
+    }
+
+    const name = record[nameKey];
+    const message = record[messageKey];
+    logRecord(
+      si,
+      sessionFor(name === undefined ? undefined : String(name)),
+      entryTypeForPinoLevel(record.level),
+      message === undefined ? '' : String(message),
+      fields
+    );
+  };
+
+  return {
+    write: (record: string | object) => {
+      if (typeof record !== 'string') {
+        logObject(record as Record<string, unknown>);
+        return;
+      }
+
+      for (const line of record.split('\n')) {
+        if (line.trim() === '') continue;
+
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(line);
+        } catch {
+          parsed = undefined;
+        }
+        if (typeof parsed === 'object' && parsed !== null) {
+          logObject(parsed as Record<string, unknown>);
+        } else {
+          // Not a pino record, e.g. output of a custom formatter
+          logRecord(si, sessionFor(undefined), 'message', line);
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Gets the entry type for a pino level: a number (trace 10 to fatal 60) or,
+ * with a level formatter, a name
+ */
+function entryTypeForPinoLevel(level: unknown): LogEntryType {
+  if (typeof level === 'string') return entryTypeForLevelName(level);
+  if (typeof level !== 'number') return 'message';
+
+  if (level >= 60) return 'fatal';
+  if (level >= 50) return 'error';
+  if (level >= 40) return 'warning';
+  if (level >= 30) return 'message';
+  return 'debug';
+}
@@ -0,0 +1,90 @@
+import type { Session } from '../Session';
+import type { SmartInspect } from '../SmartInspect';
+import { levelForEntryType } from '../levels';
+import type { LogEntryType } from '../types';
+
+/**
+ * Options shared by the logging library adapters
+ */
+export interface AdapterOptions {
+  /** Session for records without a logger name (default: the main session) */
+  session?: Session;
+  /** Gets the session for a logger name (default: the session of that name, added on first use) */
+  sessionFor?: (name: string) => Session;
+}
+
+/**
+ * Entry types for level names used by the logging libraries, including
+ * npm (winston) and syslog levels
+ */
+const LEVEL_NAMES: Record<string, LogEntryType> = {
+  trace: 'debug',
+  silly: 'debug',
+  debug: 'debug',
+  verbose: 'verbose',
+  http: 'verbose',
+  info: 'message',
+  notice: 'message',
+  warn: 'warning',
+  warning: 'warning',
+  error: 'error',
+  crit: 'fatal',
+  critical: 'fatal',
+  alert: 'fatal',
+  emerg: 'fatal',
+  fatal: 'fatal'
+};
+
+/**
+ * Gets the log entry type for a level name; unknown levels are messages
+ */
+export function entryTypeForLevelName(level: string): LogEntryType {
+  return LEVEL_NAMES[level.toLowerCase()] ?? 'message';
+}
+
+/**
+ * Creates a function that gets the session for a logger name
+ */
+export function sessionResolver(si: SmartInspect, options: AdapterOptions): (name: string | undefined) => Session {
+  return name => {
+    if (!name) return options.session ?? si.mainSession;
+    return options.sessionFor ? options.sessionFor(name) : si.addSession(name);
+  };
+}
+
+/**
+ * Logs a record to a session; fields are sent as data for the JSON viewer
+ */
+export function logRecord(
+  si: SmartInspect,
+  session: Session,
+  type: LogEntryType,
+  title: string,
+  fields?: object
+): void {
+  // Skip serializing fields the session would drop
+  if (!session.isOn(levelForEntryType(type) ?? session.defaultLevel)) return;
+
+  const data = fields !== undefined && Object.keys(fields).length > 0 ? si.serializer.serialize(fields) : undefined;
+  session.logCustomText(type, title, data, data !== undefined ? 'json' : undefined);
+}
+
+/**
+ * Splits console-style arguments into a title of the primitive arguments and
+ * fields of the objects: a single object as it is, several as an array
+ */
+export function splitArguments(args: unknown[]): { title: string; fields?: object } {
+  const parts: string[] = [];
+  const objects: object[] = [];
+  for (const arg of args) {
+    if (typeof arg === 'object' && arg !== null) {
+      objects.push(arg);
+    } else {
+      parts.push(String(arg));
+    }
+  }
+
+  const error = objects.find((object): object is Error => object instanceof Error);
+  const title = parts.length > 0 ? parts.join(' ') : error ? `${error.name}: ${error.message}` : '';
+  return { title, fields: objects.length > 1 ? objects : objects[0] };
+}
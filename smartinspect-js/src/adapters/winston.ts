@@ -0,0 +1,79 @@
+import type { SmartInspect } from '../SmartInspect';
+import { entryTypeForLevelName, logRecord, sessionResolver, type AdapterOptions } from './shared';
+
+/**
+ * Options for createWinstonTransport()
+ */
+export interface WinstonAdapterOptions extends AdapterOptions {
+  /** Field holding the logger name, which selects the session (default: 'name') */
+  nameKey?: string;
+  /** Lowest winston level the transport receives (default: the logger's level) */
+  level?: string;
+}
+
+/**
+ * The TransportStream class of the winston-transport package. It is passed
+ * in rather than imported, so winston is not a dependency.
+ */
+export type WinstonTransportClass = new (options?: { level?: string }) => object;
+
+/** Raw level of a record, set by winston before formats such as colorize run */
+const LEVEL = Symbol.for('level');
+
+/** Level and message of a winston record; other fields are metadata */
+interface WinstonInfo {
+  level: string;
+  message?: unknown;
+  [LEVEL]?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Creates a winston transport that logs records to SmartInspect sessions.
+ * The level becomes the entry type (npm and syslog levels are known), the
+ * logger name the session (e.g. set with logger.child({ name: 'db' })) and
+ * other metadata the data, shown in the JSON viewer.
+ *
+ * @example
+ * ```typescript
+ * import TransportStream from 'winston-transport';
+ *
+ * const logger = winston.createLogger({
+ *   transports: [new winston.transports.Console(), createWinstonTransport(TransportStream, si)]
+ * });
+ * ```
+ */
+export function createWinstonTransport(
+  TransportStream: WinstonTransportClass,
+  si: SmartInspect,
+  options: WinstonAdapterOptions = {}
+): object {
+  const sessionFor = sessionResolver(si, options);
+  const nameKey = options.nameKey ?? 'name';
+
+  class SmartInspectTransport extends TransportStream {
+    /**
+     * Logs a record; called by winston
+     */
+    log(info: WinstonInfo, callback: () => void): void {
+      const fields: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(info)) {
+        if (key !== 'level' && key !== 'message' && key !== nameKey) {
+          fields[key] = value;
+        }
+      }
+
+      const name = info[nameKey];
+      logRecord(
+        si,
+        sessionFor(name === undefined ? undefined : String(name)),
+        entryTypeForLevelName(info[LEVEL] ?? info.level),
+        info.message === undefined ? '' : String(info.message),
+        fields
+      );
+      callback();
+    }
+  }
+
+  return new SmartInspectTransport({ level: options.level });
+}
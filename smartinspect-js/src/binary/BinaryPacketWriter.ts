@@ -0,0 +1,292 @@
+import type {
+  Message,
+  LogEntryMessage,
+  WatchMessage,
+  ProcessFlowMessage,
+  ControlCommandMessage,
+  LogEntryType,
+  ViewerId,
+  WatchType,
+  ProcessFlowType,
+  ControlCommandType
+} from '../types';
+import { decodeBase64 } from './base64';
+
+/**
+ * Packet type identifiers in the binary protocol
+ */
+const PACKET_TYPE = {
+  controlCommand: 1,
+  logEntry: 4,
+  watch: 5,
+  processFlow: 6,
+  logHeader: 7
+} as const;
+
+/** Magic bytes at the start of every .sil log file */
+export const SIL_MAGIC = new Uint8Array([0x53, 0x49, 0x4c, 0x46]); // "SILF"
+
+/** Packet header size in bytes (2 bytes type + 4 bytes size) */
+const HEADER_SIZE = 6;
+
+// OLE Automation date: days since 12/30/1899, 25569 = days until 1/1/1970
+const DAY_OFFSET = 25569;
+const MS_PER_DAY = 86400000;
+
+const LOG_ENTRY_TYPES: Record<LogEntryType, number> = {
+  separator: 0,
+  enterMethod: 1,
+  leaveMethod: 2,
+  message: 100,
+  warning: 101,
+  error: 102,
+  comment: 104,
+  checkpoint: 106,
+  debug: 107,
+  verbose: 108,
+  fatal: 109,
+  assert: 111,
+  text: 200,
+  binary: 201,
+  graphic: 202,
+  source: 203,
+  object: 204
+};
+
+const VIEWER_IDS: Record<ViewerId, number> = {
+  title: 0,
+  data: 1,
+  list: 2,
+  valueList: 3,
+  inspector: 4,
+  table: 5,
+  web: 100,
+  binary: 200,
+  html: 300,
+  json: 301,
+  javascript: 301,
+  sql: 304,
+  ini: 305,
+  python: 306,
+  xml: 307,
+  bitmap: 400,
+  jpeg: 401,
+  icon: 402
+};
+
+const WATCH_TYPES: Record<WatchType, number> = {
+  char: 0,
+  string: 1,
+  integer: 2,
+  float: 3,
+  boolean: 4,
+  address: 5,
+  timestamp: 6,
+  object: 7
+};
+
+const PROCESS_FLOW_TYPES: Record<ProcessFlowType, number> = {
+  enterMethod: 0,
+  leaveMethod: 1,
+  enterThread: 2,
+  leaveThread: 3,
+  enterProcess: 4,
+  leaveProcess: 5
+};
+
+const CONTROL_COMMAND_TYPES: Record<ControlCommandType, number> = {
+  clearLog: 0,
+  clearWatches: 1,
+  clearAll: 3,
+  clearProcessFlow: 4
+};
+
+/**
+ * Serializes messages to SmartInspect's binary packet format, as read by
+ * the console's BinaryPacketReader (TCP listener and .sil files).
+ */
+export class BinaryPacketWriter {
+  private encoder = new TextEncoder();
+
+  /** Host name written to log entries and process flow packets */
+  public hostName: string = '';
+
+  /** Process ID written to log entries and process flow packets */
+  public processId: number = 0;
+
+  /**
+   * Serializes a message to a complete packet (6-byte header + payload)
+   */
+  writePacket(message: Message): Uint8Array {
+    switch (message.type) {
+      case 'logEntry':
+        return this.packet(PACKET_TYPE.logEntry, this.serializeLogEntry(message));
+      case 'watch':
+        return this.packet(PACKET_TYPE.watch, this.serializeWatch(message));
+      case 'processFlow':
+        return this.packet(PACKET_TYPE.processFlow, this.serializeProcessFlow(message));
+      case 'control':
+        return this.packet(PACKET_TYPE.controlCommand, this.serializeControlCommand(message));
+    }
+  }
+
+  /**
+   * Serializes a log header packet identifying the application and host
+   */
+  writeLogHeader(appName: string): Uint8Array {
+    const content = this.encoder.encode(`hostname=${this.hostName}\r\nappname=${appName}\r\n`);
+    const buffer = new PayloadBuffer(4 + content.length);
+    buffer.writeInt(content.length);
+    buffer.writeBytes(content);
+    return this.packet(PACKET_TYPE.logHeader, buffer.bytes);
+  }
+
+  private serializeLogEntry(message: LogEntryMessage): Uint8Array {
+    const appName = this.encoder.encode(message.appName ?? '');
+    const sessionName = this.encoder.encode(message.session);
+    const title = this.encoder.encode(message.title);
+    const hostName = this.encoder.encode(message.hostName || this.hostName);
+    const data = message.dataEncoding === 'base64'
+      ? decodeBase64(message.data ?? '')
+      : this.encoder.encode(message.data ?? '');
+
+    // 48-byte fixed header + variable data
+    const buffer = new PayloadBuffer(48 + appName.length + sessionName.length +
+      title.length + hostName.length + data.length);
+
+    buffer.writeInt(LOG_ENTRY_TYPES[message.logEntryType] ?? LOG_ENTRY_TYPES.message);
+    buffer.writeInt(message.viewerId !== undefined
+      ? VIEWER_IDS[message.viewerId]
+      : (data.length > 0 ? VIEWER_IDS.data : VIEWER_IDS.title));
+    buffer.writeInt(appName.length);
+    buffer.writeInt(sessionName.length);
+    buffer.writeInt(title.length);
+    buffer.writeInt(hostName.length);
+    buffer.writeInt(data.length);
+    buffer.writeInt(this.processId);
+    buffer.writeInt(message.threadId ?? 0);
+    buffer.writeTimestamp(message.timestamp);
+    buffer.writeInt(parseColor(message.color));
+
+    buffer.writeBytes(appName);
+    buffer.writeBytes(sessionName);
+    buffer.writeBytes(title);
+    buffer.writeBytes(hostName);
+    buffer.writeBytes(data);
+
+    return buffer.bytes;
+  }
+
+  private serializeWatch(message: WatchMessage): Uint8Array {
+    const name = this.encoder.encode(message.name);
+    const value = this.encoder.encode(message.value);
+
+    const buffer = new PayloadBuffer(20 + name.length + value.length);
+    buffer.writeInt(name.length);
+    buffer.writeInt(value.length);
+    buffer.writeInt(WATCH_TYPES[message.watchType] ?? WATCH_TYPES.string);
+    buffer.writeTimestamp(message.timestamp);
+    buffer.writeBytes(name);
+    buffer.writeBytes(value);
+
+    return buffer.bytes;
+  }
+
+  private serializeProcessFlow(message: ProcessFlowMessage): Uint8Array {
+    const title = this.encoder.encode(message.title);
+    const hostName = this.encoder.encode(message.hostName || this.hostName);
+
+    const buffer = new PayloadBuffer(28 + title.length + hostName.length);
+    buffer.writeInt(PROCESS_FLOW_TYPES[message.flowType] ?? PROCESS_FLOW_TYPES.enterMethod);
+    buffer.writeInt(title.length);
+    buffer.writeInt(hostName.length);
+    buffer.writeInt(this.processId);
+    buffer.writeInt(message.threadId ?? 0);
+    buffer.writeTimestamp(message.timestamp);
+    buffer.writeBytes(title);
+    buffer.writeBytes(hostName);
+
+    return buffer.bytes;
+  }
+
+  private serializeControlCommand(message: ControlCommandMessage): Uint8Array {
+    const buffer = new PayloadBuffer(8);
+    buffer.writeInt(CONTROL_COMMAND_TYPES[message.command] ?? CONTROL_COMMAND_TYPES.clearLog);
+    buffer.writeInt(0);
+    return buffer.bytes;
+  }
+
+  /**
+   * Prepends the 6-byte packet header (2-byte type + 4-byte size)
+   */
+  private packet(type: number, payload: Uint8Array): Uint8Array {
+    const result = new Uint8Array(HEADER_SIZE + payload.length);
+    const view = new DataView(result.buffer);
+    view.setInt16(0, type, true);
+    view.setInt32(2, payload.length, true);
+    result.set(payload, HEADER_SIZE);
+    return result;
+  }
+}
+
+/**
+ * Fixed-size little-endian write buffer
+ */
+class PayloadBuffer {
+  readonly bytes: Uint8Array;
+  private view: DataView;
+  private position: number = 0;
+
+  constructor(size: number) {
+    this.bytes = new Uint8Array(size);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  writeInt(value: number): void {
+    this.view.setInt32(this.position, value, true);
+    this.position += 4;
+  }
+
+  /**
+   * Writes a timestamp as an OLE Automation date in local time,
+   * matching native SmartInspect clients
+   * @param value ISO timestamp, or undefined for now
+   */
+  writeTimestamp(value?: string): void {
+    let date = value !== undefined ? new Date(value) : new Date();
+    if (isNaN(date.getTime())) {
+      date = new Date();
+    }
+    const localMs = date.getTime() - date.getTimezoneOffset() * 60000;
+    this.view.setFloat64(this.position, localMs / MS_PER_DAY + DAY_OFFSET, true);
+    this.position += 8;
+  }
+
+  writeBytes(data: Uint8Array): void {
+    this.bytes.set(data, this.position);
+    this.position += data.length;
+  }
+}
+
+/**
+ * Converts a '#RGB', '#RRGGBB' or '#AARRGGBB' color to the protocol's
+ * little-endian RGBA integer (R in the lowest byte). Other values map to 0 (default).
+ */
+function parseColor(color: string | undefined): number {
+  if (!color || !color.startsWith('#')) return 0;
+
+  let hex = color.slice(1);
+  if (hex.length === 3) {
+    hex = hex.split('').map(c => c + c).join('');
+  }
+  if (hex.length === 6) {
+    hex = 'FF' + hex;
+  }
+  if (hex.length !== 8 || !/^[0-9a-f]+$/i.test(hex)) return 0;
+
+  const a = parseInt(hex.slice(0, 2), 16);
+  const r = parseInt(hex.slice(2, 4), 16);
+  const g = parseInt(hex.slice(4, 6), 16);
+  const b = parseInt(hex.slice(6, 8), 16);
+  return (r | (g << 8) | (b << 16) | (a << 24)) | 0;
+}
@@ -0,0 +1,43 @@
+/** Bytes converted per String.fromCharCode call, well below engine argument limits */
+const CHUNK_SIZE = 0x8000;
+
+/**
+ * Encodes bytes as base64 with btoa, which all supported runtimes provide
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes base64 to bytes
+ */
+export function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Gets the bytes of a buffer, view or array of byte values; buffers and views are not copied
+ */
+export function toBytes(data: ArrayBufferLike | ArrayBufferView | ArrayLike<number>): Uint8Array {
+  if (data instanceof Uint8Array) return data;
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  if (isArrayBuffer(data)) return new Uint8Array(data);
+  return Uint8Array.from(data as ArrayLike<number>);
+}
+
+/**
+ * Checks for ArrayBuffers and SharedArrayBuffers
+ */
+function isArrayBuffer(data: unknown): data is ArrayBufferLike {
+  return data instanceof ArrayBuffer ||
+    (typeof SharedArrayBuffer !== 'undefined' && data instanceof SharedArrayBuffer);
+}
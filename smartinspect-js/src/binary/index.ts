@@ -0,0 +1 @@
+export { BinaryPacketWriter, SIL_MAGIC } from './BinaryPacketWriter';
@@ -0,0 +1,38 @@
+import { parseLevel } from './configuration';
+import type { InboundCommand } from './types';
+
+/**
+ * Parses a command received from the console
+ * @param data Raw message text
+ * @returns The command, or undefined if the message is not a valid command
+ */
+export function parseInboundCommand(data: string): InboundCommand | undefined {
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+
+  if (typeof json !== 'object' || json === null) return undefined;
+
+  const message = json as Record<string, unknown>;
+  const session = typeof message.session === 'string' ? message.session : undefined;
+
+  switch (message.type) {
+    case 'setLevel': {
+      const level = typeof message.level === 'string' ? parseLevel(message.level) : undefined;
+      if (!level) return undefined;
+      return { type: 'setLevel', level, session };
+    }
+    case 'setSessionActive':
+      if (typeof message.active !== 'boolean') return undefined;
+      return { type: 'setSessionActive', active: message.active, session };
+    case 'requestWatches':
+      return { type: 'requestWatches' };
+    case 'clearAll':
+      return { type: 'clearAll' };
+    default:
+      return undefined;
+  }
+}
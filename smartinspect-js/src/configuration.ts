@@ -0,0 +1,364 @@
+import type { FileOptions, FileRotate, HttpOptions, Level, OfflineQueueOptions, SmartInspectConfiguration, TcpOptions } from './types';
+
+const LEVELS: Level[] = ['debug', 'verbose', 'message', 'warning', 'error', 'fatal', 'control'];
+
+const ROTATE_VALUES: FileRotate[] = ['none', 'hourly', 'daily', 'weekly', 'monthly'];
+
+/**
+ * Parses a level name (case-insensitive)
+ * @returns The level, or undefined if the name is not a known level
+ */
+export function parseLevel(value: string): Level | undefined {
+  const normalized = value.trim().toLowerCase() as Level;
+  return LEVELS.includes(normalized) ? normalized : undefined;
+}
+
+/**
+ * Parses a SmartInspect-style connection string into configuration.
+ *
+ * The format is `protocol(option=value, option=value)`. Values containing
+ * commas or parentheses can be wrapped in double quotes. When several
+ * protocols are listed, the first one supported by this client is used.
+ *
+ * Supported protocols and options:
+ * - `ws` / `wss`: host, port, url, reconnect, reconnect.interval,
+ *   reconnect.attempts, buffer, buffer.size, level
+ * - `http`: endpoint, apikey, flushinterval, batchsize, buffer.size,
+ *   compression, clientid, metadata, retry.attempts, level
+ * - `tcp` (Node only): host, port, reconnect, reconnect.interval,
+ *   reconnect.attempts, buffer, buffer.size, timeout, hostname, level
+ * - `file` (Node only): filename, maxsize, rotate, maxparts, level
+ * - `mem`: maxsize, rotate, maxparts, level
+ *
+ * `ws`, `http` and `tcp` also accept offline, offline.name, offline.maxsize
+ * and offline.ttl for the persistent offline queue.
+ *
+ * As in SmartInspect, `maxsize` is in kilobytes unless it has a KB, MB or GB suffix.
+ *
+ * @example
+ * parseConnectionString('ws(host=localhost,port=4229,reconnect=true)');
+ * parseConnectionString('http(endpoint="https://logs.example.com/api/v1",apikey=secret)');
+ */
+export function parseConnectionString(connections: string): SmartInspectConfiguration {
+  const protocols = splitProtocols(connections);
+
+  for (const { name, options } of protocols) {
+    switch (name) {
+      case 'ws':
+      case 'wss':
+      case 'websocket':
+        return parseWebSocketOptions(name === 'wss', options);
+      case 'http':
+      case 'https':
+        return parseHttpOptions(options);
+      case 'tcp':
+        return parseTcpOptions(options);
+      case 'file':
+        return parseFileOptions('file', options);
+      case 'mem':
+      case 'memory':
+        return parseFileOptions('memory', options);
+    }
+  }
+
+  throw new Error(`No supported protocol in connection string: ${connections}`);
+}
+
+/**
+ * Checks whether a string looks like a connection string rather than a URL
+ */
+export function isConnectionString(value: string): boolean {
+  return /^\s*[a-z]+\s*\(/i.test(value);
+}
+
+/**
+ * Builds WebSocket configuration from protocol options
+ */
+function parseWebSocketOptions(secure: boolean, options: Map<string, string>): SmartInspectConfiguration {
+  const config: SmartInspectConfiguration = { connectionType: 'websocket' };
+
+  const url = options.get('url');
+  if (url !== undefined) {
+    config.url = url;
+  } else if (options.has('host') || options.has('port')) {
+    const host = options.get('host') ?? 'localhost';
+    const port = options.get('port') ?? '4229';
+    const scheme = secure || parseBool(options.get('secure')) ? 'wss' : 'ws';
+    config.url = `${scheme}://${formatHost(host)}:${port}`;
+  }
+
+  applyReconnectOptions(config, options);
+  applyOfflineOptions(config, options);
+  applyCommonOptions(config, options);
+  return config;
+}
+
+/**
+ * Builds TCP configuration from protocol options
+ */
+function parseTcpOptions(options: Map<string, string>): SmartInspectConfiguration {
+  const config: SmartInspectConfiguration = { connectionType: 'tcp' };
+  const tcpOptions: TcpOptions = {};
+
+  if (options.has('host') || options.has('port')) {
+    const host = options.get('host') ?? 'localhost';
+    const port = options.get('port') ?? '4228';
+    config.url = `tcp://${formatHost(host)}:${port}`;
+  }
+
+  applyReconnectOptions(config, options);
+
+  const timeout = parseNumber(options.get('timeout'));
+  if (timeout !== undefined) tcpOptions.timeout = timeout;
+
+  const hostName = options.get('hostname');
+  if (hostName !== undefined) tcpOptions.hostName = hostName;
+
+  config.tcpOptions = tcpOptions;
+  applyOfflineOptions(config, options);
+  applyCommonOptions(config, options);
+  return config;
+}
+
+/**
+ * Builds file or memory configuration from protocol options
+ */
+function parseFileOptions(
+  connectionType: 'file' | 'memory',
+  options: Map<string, string>
+): SmartInspectConfiguration {
+  const config: SmartInspectConfiguration = { connectionType };
+  const fileOptions: FileOptions = {};
+
+  const fileName = options.get('filename');
+  if (fileName !== undefined) config.url = fileName;
+
+  const maxSize = parseSize(options.get('maxsize'));
+  if (maxSize !== undefined) fileOptions.maxSize = maxSize;
+
+  const rotate = options.get('rotate')?.toLowerCase();
+  if (rotate !== undefined) {
+    if (!ROTATE_VALUES.includes(rotate as FileRotate)) {
+      throw new Error(`Invalid rotate value in connection string: ${rotate}`);
+    }
+    fileOptions.rotate = rotate as FileRotate;
+  }
+
+  const maxParts = parseNumber(options.get('maxparts'));
+  if (maxParts !== undefined) fileOptions.maxParts = maxParts;
+
+  config.fileOptions = fileOptions;
+  applyCommonOptions(config, options);
+  return config;
+}
+
+/**
+ * Builds HTTP configuration from protocol options
+ */
+function parseHttpOptions(options: Map<string, string>): SmartInspectConfiguration {
+  const config: SmartInspectConfiguration = { connectionType: 'http' };
+  const httpOptions: HttpOptions = {};
+
+  const endpoint = options.get('endpoint') ?? options.get('url');
+  if (endpoint !== undefined) config.url = endpoint;
+
+  const apiKey = options.get('apikey');
+  if (apiKey !== undefined) httpOptions.apiKey = apiKey;
+
+  const flushInterval = parseNumber(options.get('flushinterval'));
+  if (flushInterval !== undefined) httpOptions.flushInterval = flushInterval;
+
+  const batchSize = parseNumber(options.get('batchsize'));
+  if (batchSize !== undefined) httpOptions.maxBatchSize = batchSize;
+
+  const bufferSize = parseNumber(options.get('buffer.size'));
+  if (bufferSize !== undefined) httpOptions.maxBufferSize = bufferSize;
+
+  const compression = parseBool(options.get('compression'));
+  if (compression !== undefined) httpOptions.enableCompression = compression;
+
+  const clientId = options.get('clientid');
+  if (clientId !== undefined) httpOptions.clientId = clientId;
+
+  const metadata = parseBool(options.get('metadata'));
+  if (metadata !== undefined) httpOptions.includeMetadata = metadata;
+
+  const retryAttempts = parseNumber(options.get('retry.attempts'));
+  if (retryAttempts !== undefined) httpOptions.retry = { maxAttempts: retryAttempts };
+
+  config.httpOptions = httpOptions;
+  applyOfflineOptions(config, options);
+  applyCommonOptions(config, options);
+  return config;
+}
+
+/**
+ * Applies reconnect and buffering options (WebSocket and TCP)
+ */
+function applyReconnectOptions(config: SmartInspectConfiguration, options: Map<string, string>): void {
+  const reconnect = parseBool(options.get('reconnect'));
+  if (reconnect !== undefined) config.autoReconnect = reconnect;
+
+  const interval = parseNumber(options.get('reconnect.interval'));
+  if (interval !== undefined) config.reconnectDelay = interval;
+
+  const attempts = parseNumber(options.get('reconnect.attempts'));
+  if (attempts !== undefined) config.maxReconnectAttempts = attempts;
+
+  const buffer = parseBool(options.get('buffer'));
+  if (buffer !== undefined) config.bufferWhenDisconnected = buffer;
+
+  const bufferSize = parseNumber(options.get('buffer.size'));
+  if (bufferSize !== undefined) config.maxBufferSize = bufferSize;
+}
+
+/**
+ * Applies persistent offline queue options (WebSocket, HTTP and TCP).
+ * The queue is enabled by offline=true or by any offline.* option.
+ */
+function applyOfflineOptions(config: SmartInspectConfiguration, options: Map<string, string>): void {
+  const enabled = parseBool(options.get('offline'));
+  const offlineQueue: OfflineQueueOptions = {};
+
+  const name = options.get('offline.name');
+  if (name !== undefined) offlineQueue.name = name;
+
+  const maxSize = parseSize(options.get('offline.maxsize'));
+  if (maxSize !== undefined) offlineQueue.maxBytes = maxSize;
+
+  const ttl = parseNumber(options.get('offline.ttl'));
+  if (ttl !== undefined) offlineQueue.ttl = ttl;
+
+  if (enabled === true || (enabled === undefined && Object.keys(offlineQueue).length > 0)) {
+    config.offlineQueue = offlineQueue;
+  }
+}
+
+/**
+ * Applies options shared by all protocols
+ */
+function applyCommonOptions(config: SmartInspectConfiguration, options: Map<string, string>): void {
+  const level = options.get('level');
+  if (level !== undefined) {
+    const parsed = parseLevel(level);
+    if (!parsed) {
+      throw new Error(`Invalid level in connection string: ${level}`);
+    }
+    config.level = parsed;
+  }
+}
+
+/**
+ * Splits a connection string into protocols and their options
+ */
+function splitProtocols(connections: string): { name: string; options: Map<string, string> }[] {
+  const result: { name: string; options: Map<string, string> }[] = [];
+  let i = 0;
+
+  while (i < connections.length) {
+    // Skip separators between protocols
+    while (i < connections.length && /[\s,]/.test(connections[i])) i++;
+    if (i >= connections.length) break;
+
+    const open = connections.indexOf('(', i);
+    if (open < 0) {
+      throw new Error(`Invalid connection string, expected '(': ${connections}`);
+    }
+
+    const name = connections.slice(i, open).trim().toLowerCase();
+    const options = new Map<string, string>();
+    let key = '';
+    let value = '';
+    let inValue = false;
+    let quoted = false;
+    let closed = false;
+
+    const commit = () => {
+      const trimmedKey = key.trim().toLowerCase();
+      if (trimmedKey) {
+        options.set(trimmedKey, quoted ? value : value.trim());
+      }
+      key = '';
+      value = '';
+      inValue = false;
+      quoted = false;
+    };
+
+    for (i = open + 1; i < connections.length; i++) {
+      const ch = connections[i];
+
+      if (inValue && ch === '"') {
+        if (quoted && connections[i + 1] === '"') {
+          // Escaped quote inside a quoted value
+          value += '"';
+          i++;
+        } else {
+          quoted = !quoted;
+        }
+      } else if (quoted) {
+        value += ch;
+      } else if (ch === '=' && !inValue) {
+        inValue = true;
+      } else if (ch === ',') {
+        commit();
+      } else if (ch === ')') {
+        commit();
+        closed = true;
+        i++;
+        break;
+      } else if (inValue) {
+        value += ch;
+      } else {
+        key += ch;
+      }
+    }
+
+    if (!closed) {
+      throw new Error(`Invalid connection string, missing ')': ${connections}`);
+    }
+
+    result.push({ name, options });
+  }
+
+  return result;
+}
+
+/**
+ * Puts an IPv6 host in brackets for use in a URL
+ */
+function formatHost(host: string): string {
+  return host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
+}
+
+/**
+ * Parses a boolean option value
+ */
+function parseBool(value: string | undefined): boolean | undefined {
+  if (value === undefined) return undefined;
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'true' || normalized === 'yes' || normalized === '1') return true;
+  if (normalized === 'false' || normalized === 'no' || normalized === '0') return false;
+  return undefined;
+}
+
+/**
+ * Parses a size option value in bytes; plain numbers are kilobytes
+ */
+function parseSize(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(kb|mb|gb)?\s*$/i.exec(value);
+  if (!match) return undefined;
+
+  const units: Record<string, number> = { kb: 1024, mb: 1024 * 1024, gb: 1024 * 1024 * 1024 };
+  return Math.round(Number(match[1]) * units[(match[2] ?? 'kb').toLowerCase()]);
+}
+
+/**
+ * Parses a numeric option value
+ */
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
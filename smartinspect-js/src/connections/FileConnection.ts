@@ -0,0 +1,168 @@
+import type { FileOptions } from '../types';
+import { SilConnectionBase } from './SilConnectionBase';
+import { SIL_MAGIC } from '../binary';
+import { getNodeProcess, importNodeModule } from '../runtime';
+
+/**
+ * Minimal view of Node's fs module (avoids a dependency on @types/node)
+ */
+interface NodeFs {
+  openSync(path: string, flags: string): number;
+  writeSync(fd: number, data: Uint8Array): number;
+  closeSync(fd: number): void;
+  fstatSync(fd: number): { size: number };
+  readdirSync(path: string): string[];
+  unlinkSync(path: string): void;
+}
+
+/**
+ * Minimal view of Node's os module
+ */
+interface NodeOs {
+  hostname(): string;
+}
+
+/**
+ * Writes SmartInspect log files (.sil) to disk (Node only).
+ *
+ * Without rotation, messages are appended to the given file. With rotation
+ * (maxSize or rotate), each part gets a timestamp suffix, e.g.
+ * 'app-2026-10-19-18-05-00.sil' ('app-2026-10-19-18-05-00-1.sil' for a second
+ * part within the same second), and only the newest maxParts are kept.
+ */
+export class FileConnection extends SilConnectionBase {
+  private fs: NodeFs | null = null;
+  private fd: number | null = null;
+  private fileName: string = '';
+  private currentPath: string = '';
+  private lastPartTimestamp: string = '';
+  private partCounter: number = 0;
+
+  /** Host name written to the log (default: the machine's host name) */
+  public hostName?: string;
+
+  constructor(options?: FileOptions) {
+    super(options);
+  }
+
+  /**
+   * Gets the path of the file currently being written
+   */
+  get currentFile(): string | undefined {
+    return this.fd !== null ? this.currentPath : undefined;
+  }
+
+  /**
+   * Start writing to a log file
+   * @param url File path (e.g., 'logs/app.sil')
+   */
+  async connect(url: string): Promise<void> {
+    this.disconnect();
+    this.setState('connecting');
+
+    try {
+      this.fs = await importNodeModule<NodeFs>('node:fs');
+      const os = await importNodeModule<NodeOs>('node:os');
+      this.writer.hostName = this.hostName ?? os.hostname();
+      this.writer.processId = getNodeProcess()?.pid ?? 0;
+    } catch {
+      this.setState('disconnected');
+      throw new Error('FileConnection requires Node.js');
+    }
+
+    this.fileName = url;
+    this.setState('connected');
+  }
+
+  protected openFile(now: Date): void {
+    if (!this.fs) return;
+
+    this.currentPath = this.rotating ? this.partName(now) : this.fileName;
+    this.fd = this.fs.openSync(this.currentPath, 'a');
+
+    if (this.fs.fstatSync(this.fd).size === 0) {
+      this.fs.writeSync(this.fd, SIL_MAGIC);
+    }
+
+    if (this.rotating && this.maxParts > 0) {
+      this.deleteOldParts();
+    }
+  }
+
+  protected writeBytes(bytes: Uint8Array): void {
+    if (this.fs && this.fd !== null) {
+      this.fs.writeSync(this.fd, bytes);
+    }
+  }
+
+  protected closeFile(): void {
+    if (this.fs && this.fd !== null) {
+      this.fs.closeSync(this.fd);
+    }
+    this.fd = null;
+  }
+
+  /**
+   * Builds the name of a rotated part: 'dir/name-yyyy-MM-dd-HH-mm-ss.ext'
+   */
+  private partName(now: Date): string {
+    const { base, extension } = this.splitFileName();
+    const timestamp = this.formatFileTimestamp(now);
+
+    this.partCounter = timestamp === this.lastPartTimestamp ? this.partCounter + 1 : 0;
+    this.lastPartTimestamp = timestamp;
+
+    const counter = this.partCounter > 0 ? `-${this.partCounter}` : '';
+    return `${base}-${timestamp}${counter}${extension}`;
+  }
+
+  /**
+   * Deletes the oldest rotated parts beyond maxParts
+   */
+  private deleteOldParts(): void {
+    if (!this.fs) return;
+
+    const { directory, base, extension } = this.splitFileName();
+    const prefix = base.slice(directory.length);
+    const pattern = new RegExp(`^${escapeRegExp(prefix)}-(\\d{4}(?:-\\d{2}){5})(?:-(\\d+))?${escapeRegExp(extension)}$`);
+
+    // Oldest first: by timestamp, then by counter
+    const parts = this.fs.readdirSync(directory || '.')
+      .map(name => ({ name, match: pattern.exec(name) }))
+      .filter((part): part is { name: string; match: RegExpExecArray } => part.match !== null)
+      .sort((a, b) => a.match[1].localeCompare(b.match[1]) || Number(a.match[2] ?? 0) - Number(b.match[2] ?? 0))
+      .map(part => part.name);
+
+    for (const name of parts.slice(0, Math.max(0, parts.length - this.maxParts))) {
+      try {
+        this.fs.unlinkSync(directory + name);
+      } catch {
+        // Part may be locked or already gone
+      }
+    }
+  }
+
+  /**
+   * Splits the configured file name into directory (with trailing separator),
+   * path without extension, and extension
+   */
+  private splitFileName(): { directory: string; base: string; extension: string } {
+    const separator = Math.max(this.fileName.lastIndexOf('/'), this.fileName.lastIndexOf('\\'));
+    const directory = this.fileName.slice(0, separator + 1);
+    const dot = this.fileName.lastIndexOf('.');
+    const hasExtension = dot > separator;
+
+    return {
+      directory,
+      base: hasExtension ? this.fileName.slice(0, dot) : this.fileName,
+      extension: hasExtension ? this.fileName.slice(dot) : '.sil'
+    };
+  }
+}
+
+/**
+ * Escapes a string for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
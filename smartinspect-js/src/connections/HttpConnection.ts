@@ -1,5 +1,9 @@
 import type { Message, ConnectionState, SmartInspectEvents, LogEntryMessage } from '../types';
 import type { IConnection } from './IConnection';
+import { getRuntime, type IRuntime, type TimerHandle } from '../runtime';
+import type { OfflineQueue } from '../offline';
+import type { Redactor } from '../Redactor';
+import { runInternal } from '../network/internal';
 
 /**
  * Configuration options for HTTP connection
@@ -57,11 +61,11 @@ interface BatchRequest {
 export class HttpConnection implements IConnection {
   private state: ConnectionState = 'disconnected';
   private buffer: Message[] = [];
-  private flushTimer: number | null = null;
+  private flushTimer: TimerHandle | null = null;
   private endpoint: string = '';
-  private unloadHandler: (() => void) | null = null;
-  private visibilityHandler: (() => void) | null = null;
+  private removeShutdownHandler: (() => void) | null = null;
   private connectionAttempted: boolean = false;
+  private _runtime: IRuntime | undefined;
 
   // Configuration with defaults
   public apiKey?: string;
@@ -74,12 +78,46 @@ export class HttpConnection implements IConnection {
   public clientId: string;
   public includeMetadata: boolean = true;
 
+  /** Persistent queue for messages that could not be delivered */
+  public offlineQueue: OfflineQueue | null = null;
+
+  /** Redaction rules applied to the metadata, e.g. query strings in the page URL */
+  public redactor: Redactor | null = null;
+
   public events: SmartInspectEvents = {};
 
   constructor(options?: HttpConnectionOptions) {
     this.clientId = options?.clientId || this.generateClientId();
+    this.configure(options);
+  }
+
+  get connectionState(): ConnectionState {
+    return this.state;
+  }
+
+  get isConnected(): boolean {
+    return this.state === 'connected';
+  }
+
+  /**
+   * Gets or sets the runtime used for timers, lifecycle hooks and metadata.
+   * Defaults to the detected runtime.
+   */
+  get runtime(): IRuntime {
+    return this._runtime ?? getRuntime();
+  }
 
+  set runtime(value: IRuntime) {
+    this._runtime = value;
+  }
+
+  /**
+   * Apply options to the connection. Can be called again at runtime;
+   * a changed flush interval takes effect on the next tick.
+   */
+  configure(options?: HttpConnectionOptions): void {
     if (options) {
+      if (options.clientId !== undefined) this.clientId = options.clientId;
       if (options.apiKey !== undefined) this.apiKey = options.apiKey;
       if (options.flushInterval !== undefined) this.flushInterval = options.flushInterval;
       if (options.maxBatchSize !== undefined) this.maxBatchSize = options.maxBatchSize;
@@ -89,14 +127,11 @@ export class HttpConnection implements IConnection {
       if (options.compressionThreshold !== undefined) this.compressionThreshold = options.compressionThreshold;
       if (options.includeMetadata !== undefined) this.includeMetadata = options.includeMetadata;
     }
-  }
 
-  get connectionState(): ConnectionState {
-    return this.state;
-  }
-
-  get isConnected(): boolean {
-    return this.state === 'connected';
+    if (this.flushTimer !== null) {
+      this.startFlushTimer();
+    }
+    this.trimBuffer();
   }
 
   /**
@@ -110,10 +145,10 @@ export class HttpConnection implements IConnection {
 
     try {
       // Verify endpoint is reachable via health check
-      const response = await fetch(`${this.endpoint}/health`, {
+      const response = await runInternal(() => fetch(`${this.endpoint}/health`, {
         method: 'GET',
         headers: this.buildHeaders()
-      });
+      }));
 
       if (!response.ok) {
         throw new Error(`Health check failed: ${response.status}`);
@@ -122,6 +157,7 @@ export class HttpConnection implements IConnection {
       this.setState('connected');
       this.startFlushTimer();
       this.setupUnloadHandlers();
+      this.replayOfflineQueue();
     } catch (error) {
       this.setState('disconnected');
       throw error;
@@ -150,6 +186,12 @@ export class HttpConnection implements IConnection {
       return;
     }
 
+    // Persist right away while the relay is unreachable
+    if (this.offlineQueue && this.state !== 'connected') {
+      this.offlineQueue.add(message);
+      return;
+    }
+
     this.buffer.push(message);
 
     // Immediate flush for critical messages
@@ -186,13 +228,45 @@ export class HttpConnection implements IConnection {
 
       if (!response.ok) {
         // Re-buffer messages on failure
-        this.buffer = [...messages, ...this.buffer];
-        this.trimBuffer();
+        this.requeue(messages);
+      } else if (this.offlineQueue && this.offlineQueue.length > 0) {
+        // The relay is reachable again, send what failed earlier
+        this.replayOfflineQueue();
       }
     } catch (error) {
       // Re-buffer messages on network error
+      this.requeue(messages);
+      this.events.onError?.(error as Error);
+    }
+  }
+
+  /**
+   * Put messages from a failed batch back, into the offline queue if there is one
+   */
+  private requeue(messages: Message[]): void {
+    if (this.offlineQueue) {
+      for (const message of messages) {
+        this.offlineQueue.add(message);
+      }
+    } else {
       this.buffer = [...messages, ...this.buffer];
       this.trimBuffer();
+    }
+  }
+
+  /**
+   * Move messages from the offline queue to the front of the buffer and send them
+   */
+  private async replayOfflineQueue(): Promise<void> {
+    if (!this.offlineQueue) return;
+
+    try {
+      const messages = await this.offlineQueue.drain();
+      if (messages.length > 0) {
+        this.buffer = [...messages, ...this.buffer];
+        await this.flush();
+      }
+    } catch (error) {
       this.events.onError?.(error as Error);
     }
   }
@@ -209,11 +283,9 @@ export class HttpConnection implements IConnection {
     const payload = this.buildPayload(messages);
     const body = JSON.stringify(payload);
 
-    // Use sendBeacon for reliable delivery on page close
-    if (typeof navigator !== 'undefined' && navigator.sendBeacon) {
-      const blob = new Blob([body], { type: 'application/json' });
-      navigator.sendBeacon(`${this.endpoint}/logs`, blob);
-    }
+    // Use sendBeacon for reliable delivery on page close; the relay rejects
+    // requests without the API key, so it has to be sent along
+    this.runtime.sendBeacon(`${this.endpoint}/logs`, body, this.apiKey ? this.buildHeaders() : undefined);
   }
 
   /**
@@ -244,11 +316,11 @@ export class HttpConnection implements IConnection {
           }
         }
 
-        const response = await fetch(`${this.endpoint}/logs`, {
+        const response = await runInternal(() => fetch(`${this.endpoint}/logs`, {
           method: 'POST',
           headers,
           body: finalBody
-        });
+        }));
 
         return response;
       } catch (error) {
@@ -293,10 +365,10 @@ export class HttpConnection implements IConnection {
       clientId: this.clientId
     };
 
-    if (this.includeMetadata && typeof window !== 'undefined') {
+    if (this.includeMetadata) {
+      const metadata = this.runtime.getMetadata();
       payload.metadata = {
-        userAgent: navigator.userAgent,
-        url: window.location.href,
+        ...(this.redactor ? this.redactor.redactFields(metadata) : metadata),
         timestamp: new Date().toISOString()
       };
     }
@@ -320,7 +392,7 @@ export class HttpConnection implements IConnection {
    */
   private startFlushTimer(): void {
     this.stopFlushTimer();
-    this.flushTimer = window.setInterval(() => this.flush(), this.flushInterval);
+    this.flushTimer = this.runtime.setInterval(() => this.flush(), this.flushInterval);
   }
 
   /**
@@ -328,7 +400,7 @@ export class HttpConnection implements IConnection {
    */
   private stopFlushTimer(): void {
     if (this.flushTimer !== null) {
-      window.clearInterval(this.flushTimer);
+      this.runtime.clearInterval(this.flushTimer);
       this.flushTimer = null;
     }
   }
@@ -337,33 +409,17 @@ export class HttpConnection implements IConnection {
    * Setup handlers for page unload to flush remaining messages
    */
   private setupUnloadHandlers(): void {
-    if (typeof window === 'undefined') return;
-
-    this.unloadHandler = () => this.flushSync();
-    this.visibilityHandler = () => {
-      if (document.visibilityState === 'hidden') {
-        this.flushSync();
-      }
-    };
-
-    window.addEventListener('beforeunload', this.unloadHandler);
-    document.addEventListener('visibilitychange', this.visibilityHandler);
+    this.removeUnloadHandlers();
+    this.removeShutdownHandler = this.runtime.onShutdown(() => this.flushSync());
   }
 
   /**
    * Remove unload handlers
    */
   private removeUnloadHandlers(): void {
-    if (typeof window === 'undefined') return;
-
-    if (this.unloadHandler) {
-      window.removeEventListener('beforeunload', this.unloadHandler);
-      this.unloadHandler = null;
-    }
-
-    if (this.visibilityHandler) {
-      document.removeEventListener('visibilitychange', this.visibilityHandler);
-      this.visibilityHandler = null;
+    if (this.removeShutdownHandler) {
+      this.removeShutdownHandler();
+      this.removeShutdownHandler = null;
     }
   }
 
@@ -435,7 +491,7 @@ export class HttpConnection implements IConnection {
    * Generate unique client ID
    */
   private generateClientId(): string {
-    return `browser-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    return `${this.runtime.name}-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
   }
 
   /**
@@ -1,4 +1,4 @@
-import type { Message, ConnectionState, SmartInspectEvents } from '../types';
+import type { Message, ConnectionState, SmartInspectEvents, InboundCommand } from '../types';
 
 /**
  * Interface for SmartInspect connections.
@@ -14,6 +14,9 @@ export interface IConnection {
   /** Event handlers */
   events: SmartInspectEvents;
 
+  /** Handler for commands received from the console (bidirectional connections only) */
+  onCommand?: (command: InboundCommand) => void;
+
   /** Connect to the endpoint */
   connect(url: string): Promise<void>;
 
@@ -0,0 +1,118 @@
+import type { FileOptions } from '../types';
+import { SilConnectionBase } from './SilConnectionBase';
+import { SIL_MAGIC } from '../binary';
+
+/**
+ * One rotated part held in memory
+ */
+interface BufferPart {
+  chunks: Uint8Array[];
+  size: number;
+}
+
+/**
+ * Keeps a SmartInspect log file (.sil) in memory, e.g. to let testers
+ * download a log from the browser and attach it to a bug report.
+ *
+ * Works as a rolling window: by default a new part starts every 1 MB and
+ * only the newest 2 parts are kept.
+ */
+export class SilBufferConnection extends SilConnectionBase {
+  private parts: BufferPart[] = [];
+
+  constructor(options?: FileOptions) {
+    super({ maxSize: 1024 * 1024, maxParts: 2, ...options });
+  }
+
+  /**
+   * Gets the number of bytes currently held, excluding the file header
+   */
+  get size(): number {
+    return this.parts.reduce((sum, part) => sum + part.size, 0);
+  }
+
+  /**
+   * Start recording
+   * @param _url Ignored; present for IConnection compatibility
+   */
+  async connect(_url?: string): Promise<void> {
+    this.writer.hostName = typeof location !== 'undefined' ? location.hostname : '';
+    this.setState('connected');
+  }
+
+  /**
+   * Gets the recorded log as .sil file bytes
+   */
+  toUint8Array(): Uint8Array {
+    const result = new Uint8Array(SIL_MAGIC.length + this.size);
+    result.set(SIL_MAGIC, 0);
+
+    let offset = SIL_MAGIC.length;
+    for (const part of this.parts) {
+      for (const chunk of part.chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Gets the recorded log as a .sil file Blob
+   */
+  toBlob(): Blob {
+    const bytes = this.toUint8Array();
+    const arrayBuffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+    return new Blob([arrayBuffer], { type: 'application/octet-stream' });
+  }
+
+  /**
+   * Offers the recorded log as a file download (browser only)
+   * @param fileName Suggested file name
+   */
+  download(fileName: string = 'log.sil'): void {
+    if (typeof document === 'undefined') {
+      throw new Error('download() requires a browser document');
+    }
+
+    const url = URL.createObjectURL(this.toBlob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.style.display = 'none';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  /**
+   * Discards everything recorded so far
+   */
+  clear(): void {
+    // Next message starts a new part with a fresh log header
+    this.endFile();
+    this.parts = [];
+  }
+
+  protected openFile(_now: Date): void {
+    this.parts.push({ chunks: [], size: 0 });
+
+    if (this.maxParts > 0 && this.parts.length > this.maxParts) {
+      this.parts.splice(0, this.parts.length - this.maxParts);
+    }
+  }
+
+  protected writeBytes(bytes: Uint8Array): void {
+    const part = this.parts[this.parts.length - 1];
+    if (part) {
+      part.chunks.push(bytes);
+      part.size += bytes.length;
+    }
+  }
+
+  protected closeFile(): void {
+    // Parts stay in memory until rotated out or cleared
+  }
+}
@@ -0,0 +1,194 @@
+import type { Message, ConnectionState, SmartInspectEvents, FileOptions, FileRotate } from '../types';
+import type { IConnection } from './IConnection';
+import { BinaryPacketWriter } from '../binary';
+
+/**
+ * Base class for connections that write SmartInspect log files (.sil).
+ * Handles packet encoding and size- or time-based rotation; subclasses
+ * decide where the bytes go.
+ */
+export abstract class SilConnectionBase implements IConnection {
+  protected state: ConnectionState = 'disconnected';
+  protected writer = new BinaryPacketWriter();
+  private fileOpen: boolean = false;
+  private fileSize: number = 0;
+  private filePeriod: string = '';
+
+  // Configuration
+  public maxSize: number = 0;
+  public rotate: FileRotate = 'none';
+  public maxParts: number = 0;
+
+  /** Application name for the log header when no log entry supplied one */
+  public appName: string = 'JavaScript App';
+
+  // Event handlers
+  public events: SmartInspectEvents = {};
+
+  constructor(options?: FileOptions) {
+    this.configure(options);
+  }
+
+  /**
+   * Gets the current connection state
+   */
+  get connectionState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Gets whether the connection is active
+   */
+  get isConnected(): boolean {
+    return this.state === 'connected';
+  }
+
+  /**
+   * Gets whether rotation is enabled
+   */
+  protected get rotating(): boolean {
+    return this.maxSize > 0 || this.rotate !== 'none';
+  }
+
+  /**
+   * Apply options to the connection. Can be called again at runtime.
+   */
+  configure(options?: FileOptions): void {
+    if (options) {
+      if (options.maxSize !== undefined) this.maxSize = options.maxSize;
+      if (options.rotate !== undefined) this.rotate = options.rotate;
+      if (options.maxParts !== undefined) this.maxParts = options.maxParts;
+    }
+  }
+
+  abstract connect(url: string): Promise<void>;
+
+  /**
+   * Close the current file and stop writing
+   */
+  disconnect(): void {
+    this.endFile();
+    this.setState('disconnected');
+  }
+
+  /**
+   * Close the current file so the next message starts a new one
+   */
+  protected endFile(): void {
+    if (this.fileOpen) {
+      this.closeFile();
+      this.fileOpen = false;
+    }
+  }
+
+  /**
+   * Write a message to the current file, rotating first if needed.
+   * Messages are dropped until connect() was called.
+   */
+  send(message: Message): void {
+    if (this.state !== 'connected') return;
+
+    try {
+      const now = new Date();
+      if (!this.fileOpen || this.needsRotation(now)) {
+        this.startFile(now, message);
+      }
+
+      const packet = this.writer.writePacket(message);
+      this.writeBytes(packet);
+      this.fileSize += packet.length;
+    } catch (error) {
+      this.events.onError?.(error as Error);
+    }
+  }
+
+  /**
+   * Open a new file (or part) for writing. Implementations write the
+   * SILF magic themselves when the file is new.
+   */
+  protected abstract openFile(now: Date): void;
+
+  /**
+   * Append bytes to the current file
+   */
+  protected abstract writeBytes(bytes: Uint8Array): void;
+
+  /**
+   * Close the current file
+   */
+  protected abstract closeFile(): void;
+
+  /**
+   * Set connection state and fire events
+   */
+  protected setState(state: ConnectionState): void {
+    const previousState = this.state;
+    this.state = state;
+
+    if (previousState !== state) {
+      this.events.onStateChange?.(state);
+
+      if (state === 'connected') {
+        this.events.onConnected?.();
+      } else if (state === 'disconnected') {
+        this.events.onDisconnected?.();
+      }
+    }
+  }
+
+  /**
+   * Formats a timestamp for rotated file names, e.g. '2026-10-19-18-05-00'
+   */
+  protected formatFileTimestamp(date: Date): string {
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+      `-${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+  }
+
+  /**
+   * Rotate to a new file and write the log header
+   */
+  private startFile(now: Date, message: Message): void {
+    this.endFile();
+    this.openFile(now);
+    this.fileOpen = true;
+    this.fileSize = 0;
+    this.filePeriod = periodKey(now, this.rotate);
+
+    const appName = message.type === 'logEntry' && message.appName ? message.appName : this.appName;
+    const header = this.writer.writeLogHeader(appName);
+    this.writeBytes(header);
+    this.fileSize += header.length;
+  }
+
+  /**
+   * Check whether the size limit or rotation period was reached
+   */
+  private needsRotation(now: Date): boolean {
+    if (this.maxSize > 0 && this.fileSize >= this.maxSize) {
+      return true;
+    }
+    return this.rotate !== 'none' && periodKey(now, this.rotate) !== this.filePeriod;
+  }
+}
+
+/**
+ * Gets a key that changes when a new rotation period starts
+ */
+function periodKey(date: Date, rotate: FileRotate): string {
+  switch (rotate) {
+    case 'hourly':
+      return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}-${date.getHours()}`;
+    case 'daily':
+      return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+    case 'weekly': {
+      // Weeks start on Monday
+      const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+      return `${monday.getFullYear()}-${monday.getMonth()}-${monday.getDate()}`;
+    }
+    case 'monthly':
+      return `${date.getFullYear()}-${date.getMonth()}`;
+    default:
+      return '';
+  }
+}
@@ -0,0 +1,406 @@
+import type { Message, ConnectionState, SmartInspectEvents, TcpOptions } from '../types';
+import type { IConnection } from './IConnection';
+import { BinaryPacketWriter } from '../binary';
+import { getRuntime, getNodeProcess, importNodeModule, type IRuntime, type TimerHandle } from '../runtime';
+import type { OfflineQueue } from '../offline';
+
+/** Banner sent to the console after it sent its own banner */
+const CLIENT_BANNER = 'SmartInspect JavaScript Library v1.2\n';
+
+/** Default console TCP port */
+const DEFAULT_PORT = 4228;
+
+/**
+ * Minimal view of a Node net.Socket (avoids a dependency on @types/node)
+ */
+interface NodeSocket {
+  setNoDelay(noDelay?: boolean): void;
+  write(data: Uint8Array): boolean;
+  destroy(): void;
+  on(event: 'data', listener: (data: Uint8Array) => void): void;
+  on(event: 'error', listener: (error: Error) => void): void;
+  on(event: 'close', listener: () => void): void;
+}
+
+/**
+ * Minimal view of Node's net module
+ */
+interface NodeNet {
+  connect(options: { host: string; port: number }): NodeSocket;
+}
+
+/**
+ * Minimal view of Node's os module
+ */
+interface NodeOs {
+  hostname(): string;
+}
+
+/**
+ * Native TCP connection using SmartInspect's binary protocol (Node only).
+ * Works with SmartInspect Console's TCP listener and other consoles that
+ * speak the classic protocol.
+ *
+ * Like native clients, packets are sent one at a time: the console
+ * acknowledges each packet with 2 bytes before the next one is written.
+ */
+export class TcpConnection implements IConnection {
+  private socket: NodeSocket | null = null;
+  private url: string = '';
+  private state: ConnectionState = 'disconnected';
+  private reconnectAttempts: number = 0;
+  private reconnectTimer: TimerHandle | null = null;
+  private buffer: Message[] = [];
+  private connectionAttempted: boolean = false;
+  private headerSent: boolean = false;
+  private awaitingAck: boolean = false;
+  /** Packet written but not yet acknowledged; sent again after a reconnect */
+  private unacknowledged: Message | null = null;
+  private ackBytes: number = 0;
+  private writer = new BinaryPacketWriter();
+  private _runtime: IRuntime | undefined;
+
+  // Configuration
+  public autoReconnect: boolean = true;
+  public reconnectDelay: number = 2000;
+  public maxReconnectAttempts: number = 0;
+  public bufferWhenDisconnected: boolean = true;
+  public maxBufferSize: number = 1000;
+  public timeout: number = 30000;
+  public hostName?: string;
+
+  /** Persistent queue used instead of the in-memory buffer while disconnected */
+  public offlineQueue: OfflineQueue | null = null;
+
+  /** Application name for the log header when no log entry supplied one */
+  public appName: string = 'JavaScript App';
+
+  // Event handlers
+  public events: SmartInspectEvents = {};
+
+  constructor(options?: TcpOptions) {
+    if (options) {
+      if (options.hostName !== undefined) this.hostName = options.hostName;
+      if (options.timeout !== undefined) this.timeout = options.timeout;
+    }
+  }
+
+  /**
+   * Gets the current connection state
+   */
+  get connectionState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Gets whether the connection is active
+   */
+  get isConnected(): boolean {
+    return this.state === 'connected';
+  }
+
+  /**
+   * Gets or sets the runtime used for timers. Defaults to the detected runtime.
+   */
+  get runtime(): IRuntime {
+    return this._runtime ?? getRuntime();
+  }
+
+  set runtime(value: IRuntime) {
+    this._runtime = value;
+  }
+
+  /**
+   * Connect to SmartInspect Console
+   * @param url TCP address (e.g., 'tcp://localhost:4228' or 'localhost:4228')
+   */
+  async connect(url: string): Promise<void> {
+    this.clearReconnectTimer();
+    this.closeSocket();
+
+    this.url = url;
+    this.connectionAttempted = true;
+    this.setState('connecting');
+
+    const { host, port } = parseTcpUrl(url);
+    let net: NodeNet;
+
+    try {
+      net = await importNodeModule<NodeNet>('node:net');
+      await this.initWriter();
+    } catch {
+      this.setState('disconnected');
+      throw new Error('TcpConnection requires Node.js');
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = net.connect({ host, port });
+      const decoder = new TextDecoder();
+      let serverBanner = '';
+      let handshakeComplete = false;
+
+      this.socket = socket;
+      socket.setNoDelay(true);
+
+      const handshakeTimer = this.runtime.setTimeout(() => {
+        const error = new Error('TCP handshake timed out');
+        this.events.onError?.(error);
+        reject(error);
+        socket.destroy();
+      }, this.timeout);
+
+      socket.on('data', (data) => {
+        // After the handshake the console only sends 2-byte acknowledgments
+        if (handshakeComplete) {
+          this.handleAck(data.length);
+          return;
+        }
+
+        serverBanner += decoder.decode(data, { stream: true });
+        if (!serverBanner.includes('\n')) return;
+
+        handshakeComplete = true;
+        this.runtime.clearTimeout(handshakeTimer);
+        socket.write(new TextEncoder().encode(CLIENT_BANNER));
+
+        this.headerSent = false;
+        this.awaitingAck = false;
+        this.ackBytes = 0;
+        this.setState('connected');
+        this.reconnectAttempts = 0;
+        this.pump();
+        this.replayOfflineQueue();
+        resolve();
+      });
+
+      socket.on('error', (error) => {
+        this.events.onError?.(error);
+        if (!handshakeComplete) {
+          this.runtime.clearTimeout(handshakeTimer);
+          reject(error);
+        }
+      });
+
+      socket.on('close', () => {
+        this.runtime.clearTimeout(handshakeTimer);
+        if (!handshakeComplete) {
+          // Settles connect() when the peer hangs up without an error
+          reject(new Error('TCP connection closed before the handshake completed'));
+        }
+        if (this.socket === socket) {
+          this.handleDisconnect();
+        }
+      });
+    });
+  }
+
+  /**
+   * Disconnect from SmartInspect Console
+   */
+  disconnect(): void {
+    this.autoReconnect = false;
+    this.clearReconnectTimer();
+    this.closeSocket();
+
+    this.setState('disconnected');
+  }
+
+  /**
+   * Send a message to the console
+   */
+  send(message: Message): void {
+    if (this.socket && this.state === 'connected') {
+      this.addToBuffer(message);
+      this.pump();
+    } else if (this.connectionAttempted && this.bufferWhenDisconnected) {
+      // Only buffer if connect() was called - otherwise drop silently
+      if (this.offlineQueue) {
+        this.offlineQueue.add(message);
+      } else {
+        this.addToBuffer(message);
+      }
+    }
+  }
+
+  /**
+   * Move messages from the offline queue to the front of the send buffer
+   */
+  private async replayOfflineQueue(): Promise<void> {
+    if (!this.offlineQueue) return;
+
+    try {
+      const messages = await this.offlineQueue.drain();
+      if (messages.length > 0) {
+        this.buffer.unshift(...messages);
+        this.pump();
+      }
+    } catch (error) {
+      this.events.onError?.(error as Error);
+    }
+  }
+
+  /**
+   * Write the next packet if the previous one was acknowledged.
+   * The log header goes first after every (re)connect.
+   */
+  private pump(): void {
+    if (!this.socket || this.state !== 'connected' || this.awaitingAck) return;
+
+    if (!this.headerSent) {
+      const first = this.buffer[0];
+      const appName = first?.type === 'logEntry' && first.appName ? first.appName : this.appName;
+      this.socket.write(this.writer.writeLogHeader(appName));
+      this.headerSent = true;
+      this.awaitingAck = true;
+      return;
+    }
+
+    const message = this.buffer.shift();
+    if (message) {
+      this.socket.write(this.writer.writePacket(message));
+      this.awaitingAck = true;
+      this.unacknowledged = message;
+    }
+  }
+
+  /**
+   * Count acknowledgment bytes and continue with the next packet
+   */
+  private handleAck(length: number): void {
+    this.ackBytes += length;
+
+    while (this.ackBytes >= 2) {
+      this.ackBytes -= 2;
+      this.awaitingAck = false;
+      this.unacknowledged = null;
+    }
+
+    this.pump();
+  }
+
+  /**
+   * Fill in host name and process ID for outgoing packets
+   */
+  private async initWriter(): Promise<void> {
+    const os = await importNodeModule<NodeOs>('node:os');
+    this.writer.hostName = this.hostName ?? os.hostname();
+    this.writer.processId = getNodeProcess()?.pid ?? 0;
+  }
+
+  /**
+   * Close the current socket without triggering reconnect
+   */
+  private closeSocket(): void {
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.destroy();
+    }
+    this.requeueUnacknowledged();
+  }
+
+  /**
+   * Put a packet the console never acknowledged back at the front of the buffer
+   */
+  private requeueUnacknowledged(): void {
+    if (this.unacknowledged) {
+      this.buffer.unshift(this.unacknowledged);
+      this.unacknowledged = null;
+    }
+  }
+
+  /**
+   * Handle disconnection
+   */
+  private handleDisconnect(): void {
+    this.socket = null;
+    this.requeueUnacknowledged();
+
+    if (this.autoReconnect) {
+      this.attemptReconnect();
+    } else {
+      this.setState('disconnected');
+    }
+  }
+
+  /**
+   * Attempt to reconnect
+   */
+  private attemptReconnect(): void {
+    if (this.maxReconnectAttempts > 0 && this.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.setState('disconnected');
+      return;
+    }
+
+    this.setState('reconnecting');
+    this.reconnectAttempts++;
+
+    this.clearReconnectTimer();
+    this.reconnectTimer = this.runtime.setTimeout(() => {
+      this.connect(this.url).catch(() => {
+        // Will trigger another reconnect via close
+      });
+    }, this.reconnectDelay);
+  }
+
+  /**
+   * Clear reconnect timer
+   */
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer !== null) {
+      this.runtime.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * Set connection state and fire event
+   */
+  private setState(state: ConnectionState): void {
+    const previousState = this.state;
+    this.state = state;
+
+    if (previousState !== state) {
+      this.events.onStateChange?.(state);
+
+      if (state === 'connected') {
+        this.events.onConnected?.();
+      } else if (state === 'disconnected') {
+        this.events.onDisconnected?.();
+      }
+    }
+  }
+
+  /**
+   * Add message to buffer
+   */
+  private addToBuffer(message: Message): void {
+    this.buffer.push(message);
+
+    // Trim buffer if it exceeds max size
+    while (this.buffer.length > this.maxBufferSize) {
+      this.buffer.shift();
+    }
+  }
+
+}
+
+/**
+ * Parses 'tcp://host:port', 'host:port' or 'host' into host and port.
+ * IPv6 hosts are written in brackets, e.g. 'tcp://[::1]:4228'.
+ */
+function parseTcpUrl(url: string): { host: string; port: number } {
+  let parsed: URL;
+  try {
+    parsed = new URL(/^tcp:\/\//i.test(url) ? url : `tcp://${url}`);
+  } catch {
+    // An IPv6 address without brackets and port
+    return { host: url.replace(/^tcp:\/\//i, '').replace(/\/+$/, '') || 'localhost', port: DEFAULT_PORT };
+  }
+
+  const port = Number(parsed.port);
+  return {
+    host: parsed.hostname.replace(/^\[(.*)\]$/, '$1') || 'localhost',
+    port: parsed.port && Number.isInteger(port) && port > 0 ? port : DEFAULT_PORT
+  };
+}
@@ -1,6 +1,12 @@
-import type { Message, ConnectionState, SmartInspectEvents } from '../types';
+import type { Message, ConnectionState, SmartInspectEvents, InboundCommand } from '../types';
+import { parseInboundCommand } from '../commands';
+import { getRuntime, type IRuntime, type TimerHandle } from '../runtime';
+import type { OfflineQueue } from '../offline';
 import type { IConnection } from './IConnection';
 
+/** WebSocket.OPEN, without relying on a global WebSocket */
+const WS_OPEN = 1;
+
 /**
  * Manages WebSocket connection to SmartInspect Console
  */
@@ -9,9 +15,11 @@ export class WebSocketConnection implements IConnection {
   private url: string = '';
   private state: ConnectionState = 'disconnected';
   private reconnectAttempts: number = 0;
-  private reconnectTimer: number | null = null;
+  private reconnectTimer: TimerHandle | null = null;
   private buffer: Message[] = [];
   private connectionAttempted: boolean = false;
+  private replaying: boolean = false;
+  private _runtime: IRuntime | undefined;
 
   // Configuration
   public autoReconnect: boolean = true;
@@ -20,8 +28,12 @@ export class WebSocketConnection implements IConnection {
   public bufferWhenDisconnected: boolean = true;
   public maxBufferSize: number = 1000;
 
+  /** Persistent queue used instead of the in-memory buffer while disconnected */
+  public offlineQueue: OfflineQueue | null = null;
+
   // Event handlers
   public events: SmartInspectEvents = {};
+  public onCommand?: (command: InboundCommand) => void;
 
   /**
    * Gets the current connection state
@@ -37,14 +49,26 @@ export class WebSocketConnection implements IConnection {
     return this.state === 'connected';
   }
 
+  /**
+   * Gets or sets the runtime used for timers and WebSocket creation.
+   * Defaults to the detected runtime.
+   */
+  get runtime(): IRuntime {
+    return this._runtime ?? getRuntime();
+  }
+
+  set runtime(value: IRuntime) {
+    this._runtime = value;
+  }
+
   /**
    * Connect to SmartInspect Console
    * @param url WebSocket URL (e.g., 'ws://localhost:4229')
    */
   async connect(url: string): Promise<void> {
-    if (this.ws) {
-      this.disconnect();
-    }
+    // Close an existing socket without disabling auto-reconnect
+    this.clearReconnectTimer();
+    this.closeSocket();
 
     this.url = url;
     this.connectionAttempted = true;
@@ -52,12 +76,12 @@ export class WebSocketConnection implements IConnection {
 
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(url);
+        this.ws = this.runtime.createWebSocket(url);
 
         this.ws.onopen = () => {
           this.setState('connected');
           this.reconnectAttempts = 0;
-          this.flushBuffer();
+          this.replayOfflineQueue();
           resolve();
         };
 
@@ -74,7 +98,7 @@ export class WebSocketConnection implements IConnection {
         };
 
         this.ws.onmessage = (event) => {
-          // Handle incoming messages if needed (future: bidirectional)
+          this.handleMessage(event.data);
         };
       } catch (error) {
         this.setState('disconnected');
@@ -89,12 +113,7 @@ export class WebSocketConnection implements IConnection {
   disconnect(): void {
     this.autoReconnect = false;
     this.clearReconnectTimer();
-
-    if (this.ws) {
-      this.ws.onclose = null;
-      this.ws.close();
-      this.ws = null;
-    }
+    this.closeSocket();
 
     this.setState('disconnected');
   }
@@ -103,11 +122,39 @@ export class WebSocketConnection implements IConnection {
    * Send a message to the console
    */
   send(message: Message): void {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+    if (this.ws && this.ws.readyState === WS_OPEN && !this.replaying) {
       this.ws.send(JSON.stringify(message));
     } else if (this.connectionAttempted && this.bufferWhenDisconnected) {
-      // Only buffer if connect() was called - otherwise drop silently
-      this.addToBuffer(message);
+      // Only buffer if connect() was called - otherwise drop silently.
+      // While replaying, keep new messages in memory so they follow the replayed ones.
+      if (this.offlineQueue && !this.replaying) {
+        this.offlineQueue.add(message);
+      } else {
+        this.addToBuffer(message);
+      }
+    }
+  }
+
+  /**
+   * Close the current socket without triggering reconnect
+   */
+  private closeSocket(): void {
+    if (this.ws) {
+      this.ws.onclose = null;
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+
+  /**
+   * Handle a message from the console. Unknown or malformed messages are ignored.
+   */
+  private handleMessage(data: unknown): void {
+    if (typeof data !== 'string') return;
+
+    const command = parseInboundCommand(data);
+    if (command) {
+      this.onCommand?.(command);
     }
   }
 
@@ -137,7 +184,7 @@ export class WebSocketConnection implements IConnection {
     this.reconnectAttempts++;
 
     this.clearReconnectTimer();
-    this.reconnectTimer = window.setTimeout(() => {
+    this.reconnectTimer = this.runtime.setTimeout(() => {
       this.connect(this.url).catch(() => {
         // Will trigger another reconnect via onclose
       });
@@ -149,7 +196,7 @@ export class WebSocketConnection implements IConnection {
    */
   private clearReconnectTimer(): void {
     if (this.reconnectTimer !== null) {
-      window.clearTimeout(this.reconnectTimer);
+      this.runtime.clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
   }
@@ -184,11 +231,38 @@ export class WebSocketConnection implements IConnection {
     }
   }
 
+  /**
+   * Send messages from the offline queue, then anything buffered meanwhile
+   */
+  private async replayOfflineQueue(): Promise<void> {
+    if (this.offlineQueue) {
+      const queue = this.offlineQueue;
+      this.replaying = true;
+
+      try {
+        for (const message of await queue.drain()) {
+          if (this.ws && this.ws.readyState === WS_OPEN) {
+            this.ws.send(JSON.stringify(message));
+          } else {
+            // Disconnected again, keep the rest for the next connect
+            queue.add(message);
+          }
+        }
+      } catch (error) {
+        this.events.onError?.(error as Error);
+      } finally {
+        this.replaying = false;
+      }
+    }
+
+    this.flushBuffer();
+  }
+
   /**
    * Flush buffered messages
    */
   private flushBuffer(): void {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+    if (this.ws && this.ws.readyState === WS_OPEN) {
       for (const message of this.buffer) {
         this.ws.send(JSON.stringify(message));
       }
@@ -1,3 +1,7 @@
 export type { IConnection } from './IConnection';
 export { WebSocketConnection } from './WebSocketConnection';
 export { HttpConnection, type HttpConnectionOptions } from './HttpConnection';
+export { TcpConnection } from './TcpConnection';
+export { SilConnectionBase } from './SilConnectionBase';
+export { FileConnection } from './FileConnection';
+export { SilBufferConnection } from './SilBufferConnection';
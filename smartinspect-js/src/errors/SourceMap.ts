@@ -0,0 +1,159 @@
+import type { RawSourceMap } from '../types';
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * A mapping segment: generated column, source index, original line and column
+ * (all 0-based), or only the generated column where the code maps to no source
+ */
+type Segment = [number, number, number, number] | [number];
+
+/**
+ * Original position of a generated position
+ */
+export interface OriginalPosition {
+  /** Source URL, resolved against the map's URL and sourceRoot */
+  source: string;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+}
+
+/**
+ * Decoded source map (version 3, without index map sections)
+ */
+export class SourceMap {
+  private sources: string[];
+  private lines: Segment[][] | null = null;
+  private mappings: string;
+
+  /**
+   * Creates a source map
+   * @param map The parsed map
+   * @param url URL of the map, used to resolve relative source paths
+   */
+  constructor(map: RawSourceMap, url?: string) {
+    if (map.version !== 3 || typeof map.mappings !== 'string' || !Array.isArray(map.sources)) {
+      throw new Error('Unsupported source map: expected version 3 with mappings');
+    }
+
+    const root = map.sourceRoot ? map.sourceRoot.replace(/\/?$/, '/') : '';
+    this.sources = map.sources.map(source => resolveUrl(root + source, url));
+    this.mappings = map.mappings;
+  }
+
+  /**
+   * Finds the original position of a generated position
+   * @param line 1-based line in the generated file
+   * @param column 1-based column in the generated file
+   * @returns The original position, or null if the position is not mapped
+   */
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    const segments = this.decode()[line - 1];
+    if (!segments || segments.length === 0) return null;
+
+    // Last segment starting at or before the column
+    const target = column - 1;
+    let low = 0;
+    let high = segments.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      if (segments[middle][0] <= target) {
+        found = middle;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    if (found < 0) return null;
+
+    const segment = segments[found];
+    if (segment.length === 1) return null;
+
+    const [, sourceIndex, originalLine, originalColumn] = segment;
+    const source = this.sources[sourceIndex];
+    if (source === undefined) return null;
+
+    return { source, line: originalLine + 1, column: originalColumn + 1 };
+  }
+
+  /**
+   * Decodes the VLQ mappings on first use
+   */
+  private decode(): Segment[][] {
+    if (this.lines) return this.lines;
+
+    const lines: Segment[][] = [];
+    let sourceIndex = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+
+    for (const line of this.mappings.split(';')) {
+      const segments: Segment[] = [];
+      let generatedColumn = 0;
+
+      for (const text of line.split(',')) {
+        if (!text) continue;
+
+        const values = decodeVlq(text);
+        generatedColumn += values[0];
+        if (values.length >= 4) {
+          sourceIndex += values[1];
+          originalLine += values[2];
+          originalColumn += values[3];
+          segments.push([generatedColumn, sourceIndex, originalLine, originalColumn]);
+        } else {
+          // A single field ends the previous mapping: the code maps to no source
+          segments.push([generatedColumn]);
+        }
+      }
+
+      segments.sort((a, b) => a[0] - b[0]);
+      lines.push(segments);
+    }
+
+    this.lines = lines;
+    return lines;
+  }
+}
+
+/**
+ * Decodes one Base64 VLQ segment into its values
+ */
+function decodeVlq(text: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of text) {
+    const digit = BASE64.indexOf(char);
+    if (digit < 0) {
+      throw new Error(`Invalid character '${char}' in source map mappings`);
+    }
+
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      // The lowest bit is the sign
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+/**
+ * Resolves a relative URL, leaving it unchanged if there is no usable base
+ */
+export function resolveUrl(url: string, base?: string): string {
+  if (!base) return url;
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return url;
+  }
+}
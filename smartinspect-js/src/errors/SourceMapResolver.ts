@@ -0,0 +1,149 @@
+import type { RawSourceMap, SerializedError, SourceMapOptions, StackFrame } from '../types';
+import { formatStack } from './parseStack';
+import { SourceMap, resolveUrl } from './SourceMap';
+import { runInternal } from '../network/internal';
+
+const SOURCE_MAPPING_URL = 'sourceMappingURL=';
+
+/**
+ * Resolves minified stack frames through source maps. Maps are given per
+ * script URL, as a URL or parsed map, or discovered from the script's
+ * sourceMappingURL comment. Each map is loaded once.
+ */
+export class SourceMapResolver {
+  private maps: Map<string, string | RawSourceMap> = new Map();
+  private loaded: Map<string, Promise<SourceMap | null>> = new Map();
+
+  // Configuration
+  public discover: boolean = true;
+
+  /** Called when a map cannot be loaded or parsed; its frames stay unresolved */
+  public onError?: (error: Error) => void;
+
+  constructor(options?: SourceMapOptions) {
+    this.configure(options);
+  }
+
+  /**
+   * Apply options. Can be called again at runtime.
+   */
+  configure(options?: SourceMapOptions): void {
+    if (!options) return;
+
+    if (options.discover !== undefined) this.discover = options.discover;
+    for (const [scriptUrl, map] of Object.entries(options.maps ?? {})) {
+      this.add(scriptUrl, map);
+    }
+  }
+
+  /**
+   * Register the source map of a script
+   * @param scriptUrl URL of the generated script, as it appears in stack traces
+   * @param map URL of the map (data: URLs work too) or the parsed map
+   */
+  add(scriptUrl: string, map: string | RawSourceMap): void {
+    this.maps.set(scriptUrl, map);
+    this.loaded.delete(scriptUrl);
+  }
+
+  /**
+   * Resolve the frames of an error, its causes and aggregate children.
+   * The stack is rewritten when at least one frame was resolved.
+   * @returns A resolved copy; the input is not modified
+   */
+  async resolve(error: SerializedError): Promise<SerializedError> {
+    const frames = await Promise.all(error.frames.map(frame => this.resolveFrame(frame)));
+    const result: SerializedError = { ...error, frames };
+
+    if (frames.some(frame => frame.generated)) {
+      result.stack = formatStack(`${error.name}: ${error.message}`, frames);
+    }
+    if (error.cause) {
+      result.cause = await this.resolve(error.cause);
+    }
+    if (error.errors) {
+      result.errors = await Promise.all(error.errors.map(child => this.resolve(child)));
+    }
+    return result;
+  }
+
+  /**
+   * Map a frame to its original position, if its script has a source map
+   */
+  private async resolveFrame(frame: StackFrame): Promise<StackFrame> {
+    if (!frame.fileName || frame.lineNumber === undefined) return frame;
+
+    const map = await this.load(frame.fileName);
+    const position = map?.originalPositionFor(frame.lineNumber, frame.columnNumber ?? 1);
+    if (!position) return frame;
+
+    return {
+      ...frame,
+      fileName: position.source,
+      lineNumber: position.line,
+      columnNumber: position.column,
+      generated: {
+        fileName: frame.fileName,
+        lineNumber: frame.lineNumber,
+        columnNumber: frame.columnNumber ?? 1
+      }
+    };
+  }
+
+  /**
+   * Load the map of a script once
+   */
+  private load(scriptUrl: string): Promise<SourceMap | null> {
+    let map = this.loaded.get(scriptUrl);
+    if (!map) {
+      map = this.fetchMap(scriptUrl).catch(error => {
+        this.onError?.(error as Error);
+        return null;
+      });
+      this.loaded.set(scriptUrl, map);
+    }
+    return map;
+  }
+
+  /**
+   * Fetch and parse the map of a script
+   */
+  private async fetchMap(scriptUrl: string): Promise<SourceMap | null> {
+    let map = this.maps.get(scriptUrl);
+
+    if (map === undefined) {
+      if (!this.discover || !/^https?:/.test(scriptUrl)) return null;
+
+      const mapUrl = await this.findSourceMappingUrl(scriptUrl);
+      if (!mapUrl) return null;
+      map = mapUrl;
+    }
+
+    if (typeof map !== 'string') {
+      return new SourceMap(map, scriptUrl);
+    }
+
+    const mapUrl = resolveUrl(map, scriptUrl);
+    const response = await runInternal(() => fetch(mapUrl));
+    if (!response.ok) {
+      throw new Error(`Failed to load source map ${mapUrl}: ${response.status}`);
+    }
+    return new SourceMap(await response.json() as RawSourceMap, mapUrl);
+  }
+
+  /**
+   * Read the sourceMappingURL comment of a script
+   */
+  private async findSourceMappingUrl(scriptUrl: string): Promise<string | null> {
+    const response = await runInternal(() => fetch(scriptUrl));
+    if (!response.ok) return null;
+
+    // The last comment wins; inline maps are data: URLs of any length
+    const text = await response.text();
+    const index = text.lastIndexOf(SOURCE_MAPPING_URL);
+    if (index < 0) return null;
+
+    const url = text.slice(index + SOURCE_MAPPING_URL.length).split(/[\s'"*]/, 1)[0];
+    return url ? resolveUrl(url, scriptUrl) : null;
+  }
+}
@@ -0,0 +1,4 @@
+export { serializeError } from './serializeError';
+export { parseStack, formatStack } from './parseStack';
+export { SourceMap, type OriginalPosition } from './SourceMap';
+export { SourceMapResolver } from './SourceMapResolver';
@@ -0,0 +1,96 @@
+import type { StackFrame } from '../types';
+
+/** V8 (Chrome, Edge, Node, Deno): '    at fn (file:1:2)' or '    at file:1:2' */
+const V8_FRAME = /^\s*at (?:(.+?) \((.*)\)|(.*))$/;
+
+/** SpiderMonkey and JavaScriptCore (Firefox, Safari): 'fn@file:1:2' or '@file:1:2' */
+const GECKO_FRAME = /^(.*?)@(.*)$/;
+
+/** 'file:line:column' or 'file:line' */
+const LOCATION = /^(.*?):(\d+)(?::(\d+))?$/;
+
+/**
+ * Parses an Error.stack string into frames. Lines that are not frames,
+ * such as the 'Error: message' header, are skipped.
+ */
+export function parseStack(stack: string | undefined): StackFrame[] {
+  if (!stack) return [];
+
+  // Decide per stack, so a message containing '@' is not taken for a frame
+  const parseLine = /^\s*at /m.test(stack) ? parseV8Line : parseGeckoLine;
+  const frames: StackFrame[] = [];
+  for (const line of stack.split('\n')) {
+    const frame = parseLine(line);
+    if (frame) {
+      frames.push(frame);
+    }
+  }
+  return frames;
+}
+
+/**
+ * Formats frames in the V8 style, e.g. for a stack rewritten through source maps
+ */
+export function formatStack(header: string, frames: StackFrame[]): string {
+  const lines = frames.map(frame => {
+    const location = formatLocation(frame);
+    if (!frame.functionName) return `    at ${location}`;
+    return location ? `    at ${frame.functionName} (${location})` : `    at ${frame.functionName}`;
+  });
+  return [header, ...lines].join('\n');
+}
+
+/**
+ * Parses a V8 frame line
+ */
+function parseV8Line(line: string): StackFrame | null {
+  const match = V8_FRAME.exec(line);
+  if (!match) return null;
+
+  const functionName = match[1];
+  const location = match[2] ?? match[3];
+  const position = LOCATION.exec(location);
+
+  if (!position) {
+    // e.g. 'at fn (native)' or 'at <anonymous>'
+    return { functionName: functionName ?? location };
+  }
+  return createFrame(functionName, position);
+}
+
+/**
+ * Parses a Firefox or Safari frame line
+ */
+function parseGeckoLine(line: string): StackFrame | null {
+  const match = GECKO_FRAME.exec(line.trim());
+  if (!match) return null;
+
+  const position = LOCATION.exec(match[2]);
+  if (!position) return null;
+
+  return createFrame(match[1] || undefined, position);
+}
+
+/**
+ * Creates a frame from a matched 'file:line:column' location
+ */
+function createFrame(functionName: string | undefined, position: RegExpExecArray): StackFrame {
+  const frame: StackFrame = {
+    fileName: position[1],
+    lineNumber: Number(position[2])
+  };
+  if (functionName) frame.functionName = functionName;
+  if (position[3] !== undefined) frame.columnNumber = Number(position[3]);
+  return frame;
+}
+
+/**
+ * Formats 'file:line:column', or as much of it as is known
+ */
+function formatLocation(frame: StackFrame): string {
+  if (!frame.fileName) return '';
+  if (frame.lineNumber === undefined) return frame.fileName;
+  return frame.columnNumber === undefined
+    ? `${frame.fileName}:${frame.lineNumber}`
+    : `${frame.fileName}:${frame.lineNumber}:${frame.columnNumber}`;
+}
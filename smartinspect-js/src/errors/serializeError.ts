@@ -0,0 +1,176 @@
+import type { SerializedError, SerializeErrorOptions } from '../types';
+import { Serializer } from '../Serializer';
+import { parseStack } from './parseStack';
+
+/** Default nesting limit for cause chains and aggregate children */
+const MAX_DEPTH = 10;
+
+/** Properties handled explicitly rather than listed under properties */
+const KNOWN_PROPERTIES = new Set(['name', 'message', 'stack', 'cause', 'errors', 'code']);
+
+/** Converts custom properties and thrown non-error values to JSON */
+type ValueConverter = (value: unknown, depth: number) => unknown;
+
+/** State shared by the levels of one serialization */
+interface SerializeContext {
+  convert: ValueConverter;
+  maxDepth: number;
+  ancestors: readonly object[];
+  seen: WeakSet<object>;
+}
+
+/** Serializer for errors logged without one */
+let defaultSerializer: Serializer | undefined;
+
+/**
+ * Converts an error to plain JSON, including its cause chain, AggregateError
+ * children, DOMException and system error codes, custom enumerable properties
+ * and the parsed stack frames. Thrown non-error values are converted as well.
+ * Properties that throw when read are logged with the failure.
+ */
+export function serializeError(error: unknown, options: SerializeErrorOptions = {}): SerializedError {
+  return serialize(error, 0, {
+    convert: options.convert ?? (value => (defaultSerializer ??= new Serializer()).toJson(value)),
+    maxDepth: options.maxDepth ?? MAX_DEPTH,
+    ancestors: options.ancestors ?? [],
+    seen: new WeakSet()
+  });
+}
+
+/**
+ * Serializes one level, guarding against cycles such as errors that are their own cause
+ */
+function serialize(error: unknown, depth: number, context: SerializeContext): SerializedError {
+  if (!isErrorLike(error)) {
+    return { name: typeOf(error), message: describe(error, value => context.convert(value, depth)), frames: [] };
+  }
+  context.seen.add(error);
+
+  const name = read(error, 'name');
+  const message = read(error, 'message');
+  const stack = read(error, 'stack');
+  const result: SerializedError = {
+    name: String(name ?? 'Error'),
+    message: String(message ?? ''),
+    stack: typeof stack === 'string' ? stack : undefined,
+    frames: parseStack(typeof stack === 'string' ? stack : undefined)
+  };
+
+  const code = read(error, 'code');
+  if (typeof code === 'number' || typeof code === 'string') {
+    result.code = code;
+  }
+
+  const properties = customProperties(error, value => context.convert(value, depth));
+  if (properties) {
+    result.properties = properties;
+  }
+
+  if (depth < context.maxDepth) {
+    const cause = read(error, 'cause');
+    if (cause !== undefined && !isRepeated(cause, context)) {
+      result.cause = serialize(cause, depth + 1, context);
+    }
+
+    const errors = read(error, 'errors');
+    if (Array.isArray(errors)) {
+      result.errors = errors
+        .filter(child => !isRepeated(child, context))
+        .map(child => serialize(child, depth + 1, context));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Checks for errors serialized already, further up the chain or by an enclosing serializer
+ */
+function isRepeated(value: unknown, context: SerializeContext): boolean {
+  return isErrorLike(value) && (context.seen.has(value) || context.ancestors.includes(value));
+}
+
+/**
+ * Checks for Error instances and error-like objects from other realms
+ */
+function isErrorLike(value: unknown): value is Error {
+  try {
+    return value instanceof Error ||
+      (typeof value === 'object' && value !== null &&
+        typeof (value as { message?: unknown }).message === 'string' &&
+        typeof (value as { name?: unknown }).name === 'string');
+  } catch {
+    // A proxy whose traps throw
+    return false;
+  }
+}
+
+/**
+ * Reads a property, describing the failure if a getter or proxy trap throws
+ */
+function read(object: object, key: string): unknown {
+  try {
+    return (object as Record<string, unknown>)[key];
+  } catch (error) {
+    return `[Getter failed: ${describeFailure(error)}]`;
+  }
+}
+
+/**
+ * Collects own enumerable properties other than the standard ones
+ */
+function customProperties(error: Error, convert: (value: unknown) => unknown): Record<string, unknown> | undefined {
+  let keys: string[];
+  try {
+    keys = Object.keys(error);
+  } catch {
+    // A proxy whose ownKeys trap throws; the standard properties are still logged
+    return undefined;
+  }
+
+  let properties: Record<string, unknown> | undefined;
+  for (const key of keys) {
+    if (KNOWN_PROPERTIES.has(key)) continue;
+
+    properties ??= {};
+    properties[key] = convert(read(error, key));
+  }
+  return properties;
+}
+
+/**
+ * Gets the message of a failure while reading an error
+ */
+function describeFailure(error: unknown): string {
+  try {
+    return String((error as Error)?.message ?? error);
+  } catch {
+    return 'unknown error';
+  }
+}
+
+/**
+ * Gets a name for a thrown non-error value, e.g. 'string' or 'Object'
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (typeof value === 'object') {
+    try {
+      return (value as { constructor?: { name?: string } }).constructor?.name || 'Object';
+    } catch {
+      return 'Object';
+    }
+  }
+  return typeof value;
+}
+
+/**
+ * Describes a thrown non-error value
+ */
+function describe(value: unknown, convert: (value: unknown) => unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object' && value !== null) {
+    return JSON.stringify(convert(value)) ?? 'undefined';
+  }
+  return String(value);
+}
@@ -0,0 +1,152 @@
+import type { Session } from './Session';
+import type { UncaughtErrorOrigin } from './runtime';
+import { getRuntime } from './runtime';
+
+/**
+ * Console methods that can be forwarded
+ */
+export type ConsoleMethod = 'debug' | 'log' | 'info' | 'warn' | 'error' | 'trace';
+
+/**
+ * Options for SmartInspect.captureGlobals()
+ */
+export interface CaptureGlobalsOptions {
+  /** Session to log to (default: the main session) */
+  session?: Session;
+  /** Log uncaught errors (default: true) */
+  errors?: boolean;
+  /** Log unhandled promise rejections (default: true) */
+  rejections?: boolean;
+  /** Console methods to forward, or false for none (default: all) */
+  console?: ConsoleMethod[] | false;
+  /** Keep writing forwarded calls to the original console (default: true) */
+  passThrough?: boolean;
+}
+
+/**
+ * Session method for each console method
+ */
+const CONSOLE_LOG_METHODS: Record<ConsoleMethod, 'logDebug' | 'logVerbose' | 'logMessage' | 'logWarning' | 'logError'> = {
+  debug: 'logDebug',
+  log: 'logMessage',
+  info: 'logMessage',
+  warn: 'logWarning',
+  error: 'logError',
+  trace: 'logVerbose'
+};
+
+type ConsoleFunction = (...args: unknown[]) => void;
+
+/**
+ * Hooks uncaught errors, unhandled rejections and console methods and logs
+ * them to a session
+ * @returns A function that removes all hooks
+ */
+export function captureGlobals(session: Session, options: CaptureGlobalsOptions = {}): () => void {
+  const disposers: Array<() => void> = [];
+  const captureErrors = options.errors ?? true;
+  const captureRejections = options.rejections ?? true;
+
+  if (captureErrors || captureRejections) {
+    disposers.push(getRuntime().onUncaughtError((error, origin) => {
+      if (origin === 'error' ? captureErrors : captureRejections) {
+        logUncaught(session, error, origin);
+      }
+    }));
+  }
+
+  const methods = options.console === false
+    ? []
+    : options.console ?? (Object.keys(CONSOLE_LOG_METHODS) as ConsoleMethod[]);
+  const passThrough = options.passThrough ?? true;
+  const target = globalThis.console as unknown as Record<ConsoleMethod, ConsoleFunction> | undefined;
+  let forwarding = false;
+
+  for (const method of methods) {
+    const original = target?.[method];
+    if (!target || typeof original !== 'function') continue;
+
+    const replacement: ConsoleFunction = function (this: unknown, ...args: unknown[]) {
+      // Calls made while forwarding are not logged again, e.g. Node's
+      // console.trace writing through console.error, or an onError handler
+      if (forwarding) {
+        original.apply(this, args);
+        return;
+      }
+
+      forwarding = true;
+      try {
+        logConsoleCall(session, method, args);
+        if (passThrough) {
+          original.apply(this, args);
+        }
+      } finally {
+        forwarding = false;
+      }
+    };
+
+    target[method] = replacement;
+    disposers.push(() => {
+      // Leave the method alone if someone else replaced it since
+      if (target[method] === replacement) {
+        target[method] = original;
+      }
+    });
+  }
+
+  let disposed = false;
+  return () => {
+    if (disposed) return;
+    disposed = true;
+    for (const dispose of disposers) {
+      dispose();
+    }
+  };
+}
+
+/**
+ * Logs an uncaught error or unhandled rejection with its stack
+ */
+function logUncaught(session: Session, error: unknown, origin: UncaughtErrorOrigin): void {
+  const prefix = origin === 'error' ? 'Uncaught' : 'Unhandled rejection:';
+
+  const description = error instanceof Error ? `${error.name}: ${error.message}` : formatArgument(error);
+  session.logException(`${prefix} ${description}`, error);
+}
+
+/**
+ * Logs a console call at the matching level. Errors among the
+ * arguments contribute their stack; console.trace logs the call stack.
+ */
+function logConsoleCall(session: Session, method: ConsoleMethod, args: unknown[]): void {
+  const title = args.length > 0 ? args.map(formatArgument).join(' ') : method === 'trace' ? 'Trace' : '';
+  const error = args.find((arg): arg is Error => arg instanceof Error);
+  const stack = method === 'trace' ? callerStack() : error?.stack;
+
+  session[CONSOLE_LOG_METHODS[method]](title, stack);
+}
+
+/**
+ * Formats a console argument the way the console would show it on one line
+ */
+function formatArgument(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (typeof value === 'object' && value !== null) {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+}
+
+/**
+ * Gets the stack of the code that called console.trace
+ */
+function callerStack(): string | undefined {
+  const stack = new Error().stack;
+  // Drop the 'Error' line and the frames inside this module
+  return stack?.split('\n').slice(4).join('\n');
+}
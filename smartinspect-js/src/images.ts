@@ -0,0 +1,93 @@
+import { encodeBase64 } from './binary/base64';
+import type { ViewerId } from './types';
+
+/**
+ * Images accepted by logImage: a canvas, an OffscreenCanvas, an ImageBitmap,
+ * an image Blob or a data URL
+ */
+export type ImageSource = HTMLCanvasElement | OffscreenCanvas | ImageBitmap | Blob | string;
+
+/**
+ * An image as base64 with its MIME type
+ */
+export interface EncodedImage {
+  base64: string;
+  mimeType: string;
+}
+
+/**
+ * Encodes an image for logImage. Canvases and bitmaps are encoded as PNG.
+ * Rejects for strings that are not data URLs and for bitmaps in runtimes
+ * without a canvas.
+ */
+export async function encodeImage(image: ImageSource): Promise<EncodedImage> {
+  if (typeof image === 'string') {
+    return parseDataUrl(image);
+  }
+  if (typeof Blob !== 'undefined' && image instanceof Blob) {
+    return { base64: encodeBase64(new Uint8Array(await image.arrayBuffer())), mimeType: image.type };
+  }
+  if (typeof OffscreenCanvas !== 'undefined' && image instanceof OffscreenCanvas) {
+    return encodeImage(await image.convertToBlob({ type: 'image/png' }));
+  }
+  if (typeof HTMLCanvasElement !== 'undefined' && image instanceof HTMLCanvasElement) {
+    return parseDataUrl(image.toDataURL('image/png'));
+  }
+  return encodeImage(drawBitmap(image as ImageBitmap));
+}
+
+/**
+ * Gets the console viewer for an image type
+ */
+export function viewerForImage(mimeType: string): ViewerId {
+  switch (mimeType.toLowerCase()) {
+    case 'image/jpeg':
+    case 'image/jpg':
+      return 'jpeg';
+    case 'image/x-icon':
+    case 'image/vnd.microsoft.icon':
+      return 'icon';
+    default:
+      return 'bitmap';
+  }
+}
+
+/**
+ * Splits a data URL into MIME type and base64 data; URL-encoded data is re-encoded as base64
+ */
+function parseDataUrl(url: string): EncodedImage {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s.exec(url.trim());
+  if (!match) {
+    throw new Error(`Not a data URL: ${url.slice(0, 50)}`);
+  }
+
+  const [, mimeType, parameters, payload] = match;
+  const base64 = parameters.split(';').includes('base64')
+    ? payload.replace(/\s/g, '')
+    : encodeBase64(new TextEncoder().encode(decodeURIComponent(payload)));
+
+  return { base64, mimeType: mimeType || 'text/plain' };
+}
+
+/**
+ * Draws a bitmap on a canvas, offscreen where available
+ */
+function drawBitmap(bitmap: ImageBitmap): HTMLCanvasElement | OffscreenCanvas {
+  let canvas: HTMLCanvasElement | OffscreenCanvas;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  } else if (typeof document !== 'undefined') {
+    canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+  } else {
+    throw new Error('No canvas available to draw the ImageBitmap on');
+  }
+
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) {
+    throw new Error('Could not get a 2D canvas context');
+  }
+  context.drawImage(bitmap, 0, 0);
+  return canvas;
+}
@@ -65,21 +65,103 @@
 // Main classes
 export { SmartInspect, SiAuto } from './SmartInspect';
 export { Session } from './Session';
+export { Serializer } from './Serializer';
+export { Redactor, DEFAULT_REDACTED_KEYS, DEFAULT_REDACTION_PATTERNS } from './Redactor';
+export { Throttle } from './Throttle';
+export { parseTraceparent, formatTraceparent } from './tracing';
+export { ListViewerContext, ValueListViewerContext, InspectorViewerContext, TableViewerContext } from './viewers';
+export type { TableRows } from './tables';
+export type { ImageSource } from './images';
+export { traced, type TracedOptions, type TracedDecorator } from './traced';
+export type { CaptureGlobalsOptions, ConsoleMethod } from './globals';
+export { DEFAULT_REDACTED_HEADERS, type NetworkOptions, type UrlPattern, type BodyInfo } from './network';
+export {
+  SmartInspectLogRecordExporter,
+  SmartInspectSpanExporter,
+  SessionLoggerProvider,
+  type OtelExporterOptions
+} from './otel';
+export {
+  createPinoDestination,
+  createWinstonTransport,
+  forwardLoglevel,
+  forwardDebug,
+  type AdapterOptions,
+  type PinoAdapterOptions,
+  type PinoDestination,
+  type WinstonAdapterOptions,
+  type WinstonTransportClass,
+  type LoglevelAdapterOptions,
+  type LoglevelLogger,
+  type DebugAdapterOptions,
+  type DebugModule
+} from './adapters';
+export { isLevelEnabled } from './levels';
+export { parseConnectionString, parseLevel } from './configuration';
+export { parseInboundCommand } from './commands';
 
 // Connection classes
 export {
   type IConnection,
   WebSocketConnection,
   HttpConnection,
-  type HttpConnectionOptions
+  type HttpConnectionOptions,
+  TcpConnection,
+  SilConnectionBase,
+  FileConnection,
+  SilBufferConnection
 } from './connections';
 
+// Exceptions
+export { serializeError, parseStack, SourceMap, type OriginalPosition, SourceMapResolver } from './errors';
+
+// Binary protocol
+export { BinaryPacketWriter, SIL_MAGIC } from './binary';
+
+// Offline queue
+export {
+  OfflineQueue,
+  type IOfflineStore,
+  type QueuedMessage,
+  IndexedDbStore,
+  LocalStorageStore,
+  FileStore,
+  createOfflineStore
+} from './offline';
+
+// Runtime abstraction
+export {
+  type IRuntime,
+  type ExecutionContext,
+  type ContextStorage,
+  SyncContextStorage,
+  type RuntimeMetadata,
+  type RuntimeName,
+  type TimerHandle,
+  type UncaughtErrorHandler,
+  type UncaughtErrorOrigin,
+  BrowserRuntime,
+  WorkerRuntime,
+  NodeRuntime,
+  type NodeRuntimeOptions,
+  type WebSocketConstructor,
+  detectRuntime,
+  getRuntime,
+  setRuntime,
+  getNodeProcess,
+  importNodeModule
+} from './runtime';
+
 // Re-export WebSocketConnection from root for backwards compatibility
 export { WebSocketConnection as default } from './connections';
 
 // Types
 export type {
+  Level,
   LogEntryType,
+  DataEncoding,
+  SourceLanguage,
+  LogTextOptions,
   ViewerId,
   WatchType,
   ProcessFlowType,
@@ -87,11 +169,38 @@ export type {
   ConnectionState,
   ConnectionType,
   HttpOptions,
+  TcpOptions,
+  FileOptions,
+  FileRotate,
+  OfflineQueueOptions,
+  OfflineStorage,
+  ValueFormatter,
+  SerializerOptions,
+  StackFrame,
+  SerializedError,
+  SerializeErrorOptions,
+  RawSourceMap,
+  SourceMapOptions,
+  RedactionOptions,
+  RedactionPattern,
+  RedactionFunction,
+  ThrottleOptions,
+  ContextValue,
+  ContextProperties,
+  TraceContext,
+  MessageStamp,
   LogEntryMessage,
   WatchMessage,
   ProcessFlowMessage,
   ControlCommandMessage,
   Message,
+  SetLevelCommand,
+  SetSessionActiveCommand,
+  RequestWatchesCommand,
+  ClearAllCommand,
+  InboundCommand,
   SmartInspectOptions,
+  SmartInspectConfiguration,
+  SessionConfiguration,
   SmartInspectEvents
 } from './types';
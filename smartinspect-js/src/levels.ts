@@ -0,0 +1,43 @@
+import type { Level, LogEntryType } from './types';
+
+/**
+ * Numeric ordering of log levels, lowest to highest
+ */
+const LEVEL_ORDER: Record<Level, number> = {
+  debug: 0,
+  verbose: 1,
+  message: 2,
+  warning: 3,
+  error: 4,
+  fatal: 5,
+  control: 6
+};
+
+/**
+ * Checks whether an entry at the given level passes the threshold
+ * @param level Level of the entry
+ * @param threshold Minimum level that is let through
+ */
+export function isLevelEnabled(level: Level, threshold: Level): boolean {
+  return LEVEL_ORDER[level] >= LEVEL_ORDER[threshold];
+}
+
+/**
+ * Gets the level implied by a log entry type, or undefined if the
+ * type has no inherent level (e.g. 'object' or 'text')
+ */
+export function levelForEntryType(type: LogEntryType): Level | undefined {
+  switch (type) {
+    case 'debug':
+    case 'verbose':
+    case 'message':
+    case 'warning':
+    case 'error':
+    case 'fatal':
+      return type;
+    case 'assert':
+      return 'error';
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,229 @@
+import type { Session } from '../Session';
+import { monotonicNow } from '../stamps';
+import { formatTraceparent } from '../tracing';
+import type { TraceContext } from '../types';
+import { isInternalRequest } from './internal';
+import {
+  contentLength,
+  createTraceFilter,
+  createUrlFilter,
+  describeRequestBody,
+  findHeader,
+  inSpan,
+  isTextContent,
+  logBody,
+  logExchange,
+  requestSpan,
+  toAbsoluteUrl,
+  type Exchange,
+  type NetworkOptions
+} from './shared';
+
+type FetchFunction = typeof fetch;
+
+/**
+ * A fetch request as far as it is known before it is sent
+ */
+interface FetchRequest {
+  method: string;
+  url: string;
+  absoluteUrl: string;
+  headers: Array<[string, string]>;
+  size?: number;
+  contentType: string;
+  readBody?: () => Promise<string>;
+}
+
+/**
+ * Wraps globalThis.fetch to log every request and its response to a session.
+ * Inside a trace, each request gets a child span, passed on in a traceparent
+ * header to URLs allowed by propagateTrace, whether or not they are logged.
+ * The library's own requests go straight to the original fetch, as do URLs
+ * rejected by the allow and deny patterns apart from that header.
+ * @returns A function that restores the original fetch
+ */
+export function instrumentFetch(session: Session, options: NetworkOptions = {}): () => void {
+  const target = globalThis as { fetch?: FetchFunction };
+  const original = target.fetch;
+  if (typeof original !== 'function') return () => {};
+
+  const shouldLog = createUrlFilter(options);
+  const shouldPropagate = createTraceFilter(options);
+
+  const replacement: FetchFunction = (input, init) => {
+    if (isInternalRequest()) return original(input, init);
+
+    let request: FetchRequest;
+    let logged: boolean;
+    try {
+      logged = shouldLog(toAbsoluteUrl(requestUrl(input)));
+      request = describeRequest(input, init, logged && options.bodies === true);
+    } catch {
+      return original(input, init);
+    }
+
+    // Propagation has its own filter: URLs denied to keep them out of the log still join the trace
+    let span: TraceContext | undefined;
+    try {
+      span = requestSpan();
+      if (span && shouldPropagate(request.absoluteUrl)) {
+        init = withTraceparent(request, init, span);
+      }
+    } catch {
+      // Logging must never affect the request
+    }
+    if (!logged) return original(input, init);
+
+    const start = monotonicNow();
+    const promise = original(input, init);
+
+    // Registered before the caller's handlers, so the response can still be cloned.
+    // Errors thrown while logging, e.g. by redactBody, end in the catch below.
+    promise.then(
+      response => inSpan(span, () => {
+        const contentType = response.headers.get('content-type') ?? '';
+        const readResponse = options.bodies && response.body !== null && isTextContent(contentType)
+          ? cloneBody(response)
+          : undefined;
+        const responseHeaders = headerPairs(response.headers);
+
+        logExchange(session, {
+          ...exchangeFor(request, monotonicNow() - start),
+          status: response.status,
+          statusText: response.statusText,
+          responseHeaders,
+          responseSize: contentLength(responseHeaders),
+          contentType
+        }, options);
+        return logBodies(session, request, contentType, readResponse, options, span);
+      }),
+      error => inSpan(span, () => {
+        logExchange(session, { ...exchangeFor(request, monotonicNow() - start), failure: describeFailure(error) }, options);
+        return logBodies(session, request, '', undefined, options, span);
+      })
+    ).catch(() => {
+      // Logging must never affect the request
+    });
+
+    return promise;
+  };
+
+  target.fetch = replacement;
+  return () => {
+    // Leave fetch alone if someone else replaced it since
+    if (target.fetch === replacement) {
+      target.fetch = original;
+    }
+  };
+}
+
+/**
+ * Gets the URL of a fetch call as given
+ */
+function requestUrl(input: RequestInfo | URL): string {
+  return typeof Request !== 'undefined' && input instanceof Request ? input.url : String(input);
+}
+
+/**
+ * Gets method, URL, headers and body of a fetch call. Headers in init
+ * replace those of a Request, as fetch does.
+ * @param readBody Whether the body of a Request input will be logged
+ */
+function describeRequest(input: RequestInfo | URL, init: RequestInit | undefined, readBody: boolean): FetchRequest {
+  const request = typeof Request !== 'undefined' && input instanceof Request ? input : undefined;
+  const url = requestUrl(input);
+  const headers = headerPairs(init?.headers ?? request?.headers);
+
+  let body = describeRequestBody(init?.body);
+  if (init?.body === undefined && request && request.body !== null && readBody) {
+    // Clone before fetch consumes the body
+    const copy = request.clone();
+    body = { text: () => copy.text() };
+  }
+
+  return {
+    method: (init?.method ?? request?.method ?? 'GET').toUpperCase(),
+    url,
+    absoluteUrl: toAbsoluteUrl(url),
+    headers,
+    size: contentLength(headers) ?? body.size,
+    contentType: findHeader(headers, 'content-type') ?? body.contentType ?? '',
+    readBody: body.text
+  };
+}
+
+/**
+ * Adds a traceparent header for a span to the request, unless the caller set one
+ * @returns The init to call fetch with
+ */
+function withTraceparent(request: FetchRequest, init: RequestInit | undefined, span: TraceContext): RequestInit | undefined {
+  if (typeof Headers === 'undefined' || findHeader(request.headers, 'traceparent') !== undefined) return init;
+
+  // Headers of a Request input were read into request.headers, so nothing is lost
+  request.headers.push(['traceparent', formatTraceparent(span)]);
+  return { ...init, headers: request.headers };
+}
+
+/**
+ * Gets the request half of an exchange
+ */
+function exchangeFor(request: FetchRequest, duration: number): Exchange {
+  return {
+    method: request.method,
+    url: request.url,
+    absoluteUrl: request.absoluteUrl,
+    requestHeaders: request.headers,
+    requestSize: request.size,
+    duration
+  };
+}
+
+/**
+ * Logs the request body, then the response body, when bodies are logged
+ */
+async function logBodies(
+  session: Session,
+  request: FetchRequest,
+  responseContentType: string,
+  readResponse: (() => Promise<string>) | undefined,
+  options: NetworkOptions,
+  span: TraceContext | undefined
+): Promise<void> {
+  if (!options.bodies) return;
+
+  const info = { method: request.method, url: request.url };
+  if (request.readBody && isTextContent(request.contentType)) {
+    const body = await request.readBody();
+    inSpan(span, () => logBody(session, body, { ...info, direction: 'request', contentType: request.contentType }, options));
+  }
+  if (readResponse) {
+    const body = await readResponse();
+    inSpan(span, () => logBody(session, body, { ...info, direction: 'response', contentType: responseContentType }, options));
+  }
+}
+
+/**
+ * Clones a response right away; its text is read later, once the request is logged
+ */
+function cloneBody(response: Response): () => Promise<string> {
+  const copy = response.clone();
+  return () => copy.text();
+}
+
+/**
+ * Lists headers as name/value pairs
+ */
+function headerPairs(init: HeadersInit | undefined): Array<[string, string]> {
+  if (init === undefined || typeof Headers === 'undefined') return [];
+
+  const pairs: Array<[string, string]> = [];
+  new Headers(init).forEach((value, name) => pairs.push([name, value]));
+  return pairs;
+}
+
+/**
+ * Describes why a fetch failed, e.g. 'TypeError: Failed to fetch'
+ */
+function describeFailure(error: unknown): string {
+  return error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+}
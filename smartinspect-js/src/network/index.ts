@@ -0,0 +1,4 @@
+export { instrumentFetch } from './fetch';
+export { instrumentXhr } from './xhr';
+export { runInternal, isInternalRequest } from './internal';
+export { DEFAULT_REDACTED_HEADERS, type NetworkOptions, type UrlPattern, type BodyInfo } from './shared';
@@ -0,0 +1,23 @@
+let internalDepth = 0;
+
+/**
+ * Runs a function whose requests are the library's own (relay /logs and
+ * /health calls, source maps, configuration), so instrumentFetch and
+ * instrumentXhr don't log them. fetch and XMLHttpRequest.send start their
+ * request synchronously, so marking the call itself is enough.
+ */
+export function runInternal<T>(fn: () => T): T {
+  internalDepth++;
+  try {
+    return fn();
+  } finally {
+    internalDepth--;
+  }
+}
+
+/**
+ * Checks whether a request is being started by runInternal
+ */
+export function isInternalRequest(): boolean {
+  return internalDepth > 0;
+}
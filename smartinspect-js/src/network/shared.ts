@@ -0,0 +1,342 @@
+import type { Session } from '../Session';
+import type { LogEntryType, TraceContext, ViewerId } from '../types';
+import { InspectorViewerContext } from '../viewers';
+import { toBytes } from '../binary/base64';
+import { childSpan, currentTrace, runInTrace } from '../tracing';
+
+/**
+ * A URL pattern: a substring of the URL, a regular expression or a predicate
+ */
+export type UrlPattern = string | RegExp | ((url: string) => boolean);
+
+/**
+ * Options for SmartInspect.instrumentFetch() and instrumentXhr()
+ */
+export interface NetworkOptions {
+  /** Session to log to (default: the 'Network' session) */
+  session?: Session;
+  /** Only log requests whose absolute URL matches one of these (default: all) */
+  allow?: UrlPattern[];
+  /** Never log requests whose absolute URL matches one of these */
+  deny?: UrlPattern[];
+  /** Log request and response headers (default: false) */
+  headers?: boolean;
+  /** Log text request and response bodies (default: false) */
+  bodies?: boolean;
+  /** Bodies longer than this are cut off (default: 10000) */
+  maxBodyLength?: number;
+  /** Headers whose values are replaced with '[redacted]', case-insensitive (default: DEFAULT_REDACTED_HEADERS) */
+  redactHeaders?: string[];
+  /** Called with each body before it is logged; returns the body to log */
+  redactBody?: (body: string, info: BodyInfo) => string;
+  /**
+   * Inside a trace, send traceparent headers to URLs matching these patterns,
+   * to all URLs (true) or to none (false). Cross-origin servers must allow the
+   * header in CORS preflights. Applies to requests that allow and deny keep
+   * out of the log as well (default: same-origin URLs only)
+   */
+  propagateTrace?: boolean | UrlPattern[];
+}
+
+/**
+ * Describes a body passed to NetworkOptions.redactBody
+ */
+export interface BodyInfo {
+  direction: 'request' | 'response';
+  method: string;
+  url: string;
+  contentType: string;
+}
+
+/**
+ * Headers redacted unless NetworkOptions.redactHeaders is given
+ */
+export const DEFAULT_REDACTED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key'];
+
+/**
+ * One request and its outcome, as logged to the Network session
+ */
+export interface Exchange {
+  method: string;
+  /** URL as given by the caller */
+  url: string;
+  /** URL resolved against the page, used for matching */
+  absoluteUrl: string;
+  requestHeaders?: Array<[string, string]>;
+  requestSize?: number;
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Array<[string, string]>;
+  responseSize?: number;
+  contentType?: string;
+  /** Time until the response arrived in milliseconds: its headers for fetch, all of it for XMLHttpRequest */
+  duration: number;
+  /** Why the request failed, e.g. 'TypeError: Failed to fetch' or 'aborted' */
+  failure?: string;
+}
+
+/**
+ * What is known about a request body before it is sent
+ */
+export interface RequestBody {
+  size?: number;
+  contentType?: string;
+  /** Reads the body as text; only called when bodies are logged */
+  text?: () => Promise<string>;
+}
+
+/**
+ * Gets the size, implied content type and text of a fetch or XMLHttpRequest
+ * body. FormData and streams are sent as they are, without size or text.
+ */
+export function describeRequestBody(body: unknown): RequestBody {
+  if (body === null || body === undefined) return {};
+
+  if (typeof body === 'string') {
+    return { size: byteLength(body), contentType: 'text/plain;charset=UTF-8', text: () => Promise.resolve(body) };
+  }
+  if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) {
+    const text = body.toString();
+    return { size: text.length, contentType: 'application/x-www-form-urlencoded;charset=UTF-8', text: () => Promise.resolve(text) };
+  }
+  if (typeof Blob !== 'undefined' && body instanceof Blob) {
+    return { size: body.size, contentType: body.type, text: () => body.text() };
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    const bytes = toBytes(body);
+    return { size: bytes.byteLength, text: () => Promise.resolve(new TextDecoder().decode(bytes)) };
+  }
+  if (typeof Document !== 'undefined' && body instanceof Document && typeof XMLSerializer !== 'undefined') {
+    const text = new XMLSerializer().serializeToString(body);
+    return { size: text.length, contentType: 'application/xml', text: () => Promise.resolve(text) };
+  }
+  return {};
+}
+
+/**
+ * Resolves a URL against the page or worker location, if there is one
+ */
+export function toAbsoluteUrl(url: string): string {
+  try {
+    const base = (globalThis as { location?: { href?: string } }).location?.href;
+    return new URL(url, base).href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Creates a filter that applies the allow and deny patterns to absolute URLs
+ */
+export function createUrlFilter(options: NetworkOptions): (url: string) => boolean {
+  const { allow, deny } = options;
+  return url =>
+    (!allow || allow.length === 0 || allow.some(pattern => matchesUrl(pattern, url))) &&
+    !(deny ?? []).some(pattern => matchesUrl(pattern, url));
+}
+
+/**
+ * Creates a filter for the URLs that get traceparent headers
+ */
+export function createTraceFilter(options: NetworkOptions): (url: string) => boolean {
+  const { propagateTrace } = options;
+  if (propagateTrace === undefined) return isSameOrigin;
+  if (typeof propagateTrace === 'boolean') return () => propagateTrace;
+  return url => propagateTrace.some(pattern => matchesUrl(pattern, url));
+}
+
+/**
+ * Starts a span for a request inside the current trace
+ * @returns The span, or undefined outside any trace
+ */
+export function requestSpan(): TraceContext | undefined {
+  const trace = currentTrace();
+  return trace ? childSpan(trace) : undefined;
+}
+
+/**
+ * Runs a function in a request's span, if it has one. Used for logging
+ * when the request ends, as the span is lost across callbacks in runtimes
+ * without async context tracking.
+ */
+export function inSpan<R>(span: TraceContext | undefined, fn: () => R): R {
+  return span ? runInTrace(span, fn) : fn();
+}
+
+/**
+ * Checks whether an absolute URL has the origin of the page or worker;
+ * true outside browsers, where there are no CORS restrictions
+ */
+function isSameOrigin(url: string): boolean {
+  const origin = (globalThis as { location?: { origin?: string } }).location?.origin;
+  if (!origin) return true;
+  try {
+    return new URL(url).origin === origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks a URL against one pattern
+ */
+function matchesUrl(pattern: UrlPattern, url: string): boolean {
+  if (typeof pattern === 'string') return url.includes(pattern);
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    return pattern.test(url);
+  }
+  return pattern(url);
+}
+
+/**
+ * Logs a request with its outcome: the summary in the title, the details
+ * in the object inspector. The entry type follows the status: warnings for
+ * 4xx, errors for 5xx and failed requests.
+ */
+export function logExchange(session: Session, exchange: Exchange, options: NetworkOptions): void {
+  const context = new InspectorViewerContext();
+
+  context.startGroup('Request');
+  context.appendKeyValue('Method', exchange.method);
+  context.appendKeyValue('URL', exchange.absoluteUrl);
+  if (exchange.requestSize !== undefined) {
+    context.appendKeyValue('Size', formatBytes(exchange.requestSize));
+  }
+
+  context.startGroup('Response');
+  if (exchange.failure !== undefined) {
+    context.appendKeyValue('Error', exchange.failure);
+  } else {
+    context.appendKeyValue('Status', `${exchange.status} ${exchange.statusText ?? ''}`.trim());
+  }
+  context.appendKeyValue('Duration', `${Math.round(exchange.duration)} ms`);
+  if (exchange.responseSize !== undefined) {
+    context.appendKeyValue('Size', formatBytes(exchange.responseSize));
+  }
+  if (exchange.contentType) {
+    context.appendKeyValue('Content type', exchange.contentType);
+  }
+
+  if (options.headers) {
+    appendHeaders(context, 'Request Headers', exchange.requestHeaders, options);
+    appendHeaders(context, 'Response Headers', exchange.responseHeaders, options);
+  }
+
+  session.logCustomText(entryTypeFor(exchange), describeExchange(exchange), context.toString(), context.viewerId);
+}
+
+/**
+ * Logs a request or response body with the viewer for its content type.
+ * Bodies of other than text types are left out.
+ */
+export function logBody(session: Session, body: string, info: BodyInfo, options: NetworkOptions): void {
+  if (!isTextContent(info.contentType)) return;
+
+  const maxLength = options.maxBodyLength ?? 10000;
+  let text = options.redactBody ? options.redactBody(body, info) : body;
+  if (text.length > maxLength) {
+    text = `${text.slice(0, maxLength)}… (${text.length - maxLength} more characters)`;
+  }
+
+  const label = info.direction === 'request' ? 'Request body' : 'Response body';
+  session.logCustomText('text', `${label}: ${info.method} ${info.url}`, text, viewerForContentType(info.contentType));
+}
+
+/**
+ * Gets a header value from a list of name/value pairs, case-insensitive
+ */
+export function findHeader(headers: Array<[string, string]> | undefined, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return headers?.find(([key]) => key.toLowerCase() === lower)?.[1];
+}
+
+/**
+ * Gets the size of a text in bytes when sent as UTF-8
+ */
+export function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Reads the Content-Length header
+ */
+export function contentLength(headers: Array<[string, string]> | undefined): number | undefined {
+  const value = findHeader(headers, 'content-length');
+  const length = value !== undefined ? Number(value) : NaN;
+  return Number.isFinite(length) ? length : undefined;
+}
+
+/**
+ * Checks whether a body of this content type can be logged as text.
+ * A missing content type counts as text; event streams never end and are left out.
+ */
+export function isTextContent(contentType: string): boolean {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  if (type === '') return true;
+  if (type === 'text/event-stream') return false;
+  return type.startsWith('text/') ||
+    /[/+](json|xml|javascript|graphql)$/.test(type) ||
+    type === 'application/x-www-form-urlencoded';
+}
+
+/**
+ * Gets the viewer for a content type
+ */
+function viewerForContentType(contentType: string): ViewerId {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  if (/[/+]json$/.test(type)) return 'json';
+  if (type === 'text/html') return 'html';
+  if (/[/+]xml$/.test(type)) return 'xml';
+  return 'data';
+}
+
+/**
+ * Appends headers as a group, redacting sensitive values
+ */
+function appendHeaders(
+  context: InspectorViewerContext,
+  group: string,
+  headers: Array<[string, string]> | undefined,
+  options: NetworkOptions
+): void {
+  if (!headers || headers.length === 0) return;
+
+  const redacted = (options.redactHeaders ?? DEFAULT_REDACTED_HEADERS).map(name => name.toLowerCase());
+  context.startGroup(group);
+  for (const [name, value] of headers) {
+    context.appendKeyValue(name, redacted.includes(name.toLowerCase()) ? '[redacted]' : value);
+  }
+}
+
+/**
+ * Gets the entry type for the outcome of a request
+ */
+function entryTypeFor(exchange: Exchange): LogEntryType {
+  if (exchange.failure !== undefined || (exchange.status ?? 0) >= 500) return 'error';
+  if ((exchange.status ?? 0) >= 400) return 'warning';
+  return 'message';
+}
+
+/**
+ * Summarizes a request, e.g. 'GET /api/users 200 OK (45 ms, 1.2 kB)'
+ */
+function describeExchange(exchange: Exchange): string {
+  const duration = `${Math.round(exchange.duration)} ms`;
+  if (exchange.failure !== undefined) {
+    return `${exchange.method} ${exchange.url} failed: ${exchange.failure} (${duration})`;
+  }
+
+  const status = `${exchange.status} ${exchange.statusText ?? ''}`.trim();
+  const details = exchange.responseSize !== undefined ? `${duration}, ${formatBytes(exchange.responseSize)}` : duration;
+  return `${exchange.method} ${exchange.url} ${status} (${details})`;
+}
+
+/**
+ * Formats a size in bytes, e.g. '512 B' or '1.2 kB'
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1000) return `${bytes} B`;
+  if (bytes < 1000 * 1000) return `${(bytes / 1000).toFixed(1)} kB`;
+  return `${(bytes / (1000 * 1000)).toFixed(1)} MB`;
+}
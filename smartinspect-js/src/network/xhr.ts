@@ -0,0 +1,188 @@
+import type { Session } from '../Session';
+import { monotonicNow } from '../stamps';
+import { formatTraceparent } from '../tracing';
+import type { TraceContext } from '../types';
+import { isInternalRequest } from './internal';
+import {
+  byteLength,
+  contentLength,
+  createTraceFilter,
+  createUrlFilter,
+  describeRequestBody,
+  findHeader,
+  inSpan,
+  isTextContent,
+  logBody,
+  logExchange,
+  requestSpan,
+  toAbsoluteUrl,
+  type NetworkOptions
+} from './shared';
+
+/**
+ * Method, URL and headers collected from open() and setRequestHeader()
+ */
+interface XhrRequest {
+  method: string;
+  url: string;
+  headers: Array<[string, string]>;
+}
+
+/**
+ * Patches XMLHttpRequest.prototype to log every request and its response
+ * to a session once it ends. Inside a trace, each request gets a child span,
+ * passed on in a traceparent header to URLs allowed by propagateTrace, whether
+ * or not they are logged. The library's own requests are sent unchanged, as
+ * are URLs rejected by the allow and deny patterns apart from that header.
+ * @returns A function that restores the original methods
+ */
+export function instrumentXhr(session: Session, options: NetworkOptions = {}): () => void {
+  const Xhr = (globalThis as { XMLHttpRequest?: typeof XMLHttpRequest }).XMLHttpRequest;
+  if (typeof Xhr !== 'function') return () => {};
+
+  const proto = Xhr.prototype;
+  const { open, send, setRequestHeader } = proto;
+  const requests = new WeakMap<XMLHttpRequest, XhrRequest>();
+  const shouldLog = createUrlFilter(options);
+  const shouldPropagate = createTraceFilter(options);
+
+  const openReplacement = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]) {
+    requests.set(this, { method: method.toUpperCase(), url: String(url), headers: [] });
+    return (open as (...args: unknown[]) => void).apply(this, [method, url, ...rest]);
+  } as XMLHttpRequest['open'];
+
+  const setRequestHeaderReplacement = function (this: XMLHttpRequest, name: string, value: string) {
+    requests.get(this)?.headers.push([name, value]);
+    return setRequestHeader.call(this, name, value);
+  };
+
+  const sendReplacement = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+    const request = requests.get(this);
+    if (request && !isInternalRequest()) {
+      try {
+        const absoluteUrl = toAbsoluteUrl(request.url);
+        // Propagation has its own filter: URLs denied to keep them out of the log still join the trace
+        const span = requestSpan();
+        if (span && shouldPropagate(absoluteUrl) && findHeader(request.headers, 'traceparent') === undefined) {
+          const traceparent = formatTraceparent(span);
+          setRequestHeader.call(this, 'traceparent', traceparent);
+          request.headers.push(['traceparent', traceparent]);
+        }
+        if (shouldLog(absoluteUrl)) {
+          watch(this, request, absoluteUrl, body, session, options, span);
+        }
+      } catch {
+        // Logging must never affect the request
+      }
+    }
+    return send.call(this, body);
+  };
+
+  proto.open = openReplacement;
+  proto.setRequestHeader = setRequestHeaderReplacement;
+  proto.send = sendReplacement;
+
+  return () => {
+    // Leave methods alone that someone else replaced since
+    if (proto.open === openReplacement) proto.open = open;
+    if (proto.setRequestHeader === setRequestHeaderReplacement) proto.setRequestHeader = setRequestHeader;
+    if (proto.send === sendReplacement) proto.send = send;
+  };
+}
+
+/**
+ * Logs a sent request once it has loaded, failed, timed out or been aborted
+ */
+function watch(
+  xhr: XMLHttpRequest,
+  request: XhrRequest,
+  absoluteUrl: string,
+  body: unknown,
+  session: Session,
+  options: NetworkOptions,
+  span: TraceContext | undefined
+): void {
+  const start = monotonicNow();
+  const requestBody = describeRequestBody(body);
+  let failure: string | undefined;
+
+  xhr.addEventListener('error', () => { failure = 'network error'; });
+  xhr.addEventListener('timeout', () => { failure = 'timed out'; });
+  xhr.addEventListener('abort', () => { failure = 'aborted'; });
+
+  xhr.addEventListener('loadend', () => inSpan(span, () => {
+    // Runs in the app's event dispatch, where an error would surface as uncaught
+    try {
+      const responseHeaders = parseHeaders(xhr.getAllResponseHeaders());
+      const contentType = findHeader(responseHeaders, 'content-type') ?? '';
+      const responseText = failure === undefined ? readResponseText(xhr) : undefined;
+      // JSON responses are serialized again for display, so their text is not the body's size
+      const textSize = responseText !== undefined && xhr.responseType !== 'json' ? byteLength(responseText) : undefined;
+
+      logExchange(session, {
+        method: request.method,
+        url: request.url,
+        absoluteUrl,
+        requestHeaders: request.headers,
+        requestSize: requestBody.size,
+        status: xhr.status,
+        statusText: xhr.statusText,
+        responseHeaders,
+        responseSize: contentLength(responseHeaders) ?? textSize,
+        contentType,
+        duration: monotonicNow() - start,
+        failure
+      }, options);
+
+      if (!options.bodies) return;
+
+      const info = { method: request.method, url: request.url };
+      const requestContentType = findHeader(request.headers, 'content-type') ?? requestBody.contentType ?? '';
+      const readRequest = requestBody.text && isTextContent(requestContentType) ? requestBody.text() : Promise.resolve(undefined);
+
+      readRequest
+        .then(text => inSpan(span, () => {
+          if (text !== undefined) {
+            logBody(session, text, { ...info, direction: 'request', contentType: requestContentType }, options);
+          }
+          if (responseText !== undefined) {
+            logBody(session, responseText, { ...info, direction: 'response', contentType }, options);
+          }
+        }))
+        .catch(() => {
+          // Logging must never affect the request
+        });
+    } catch {
+      // Logging must never affect the request
+    }
+  }), { once: true });
+}
+
+/**
+ * Gets the response as text for text and JSON response types
+ */
+function readResponseText(xhr: XMLHttpRequest): string | undefined {
+  switch (xhr.responseType) {
+    case '':
+    case 'text':
+      return xhr.responseText;
+    case 'json':
+      return xhr.response === null ? undefined : JSON.stringify(xhr.response, null, 2);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Parses the result of getAllResponseHeaders() into name/value pairs
+ */
+function parseHeaders(text: string): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [];
+  for (const line of text.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      pairs.push([line.slice(0, separator).trim(), line.slice(separator + 1).trim()]);
+    }
+  }
+  return pairs;
+}
@@ -0,0 +1,27 @@
+/**
+ * SmartInspect JS - Node.js entry point
+ *
+ * Same API as the browser entry, using the Node runtime: timers don't keep
+ * the process alive, HTTP batches are flushed on `beforeExit`, and metadata
+ * describes the Node process instead of a page.
+ *
+ * Node 22+ provides a global WebSocket. On older versions pass an
+ * implementation such as the 'ws' package:
+ *
+ * @example
+ * ```typescript
+ * import WebSocket from 'ws';
+ * import { SiAuto, setRuntime, NodeRuntime } from 'smartinspect-js/node';
+ *
+ * setRuntime(new NodeRuntime({ WebSocket }));
+ * await SiAuto.si.connect('ws://localhost:4229');
+ * SiAuto.main.logMessage('Hello from Node!');
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+// Must come first: the runtime has to be set before './index' creates SiAuto.si
+import './runtime/nodeSetup';
+
+export * from './index';
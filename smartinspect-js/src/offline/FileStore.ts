@@ -0,0 +1,95 @@
+import type { IOfflineStore, QueuedMessage } from './IOfflineStore';
+import { importNodeModule } from '../runtime';
+
+/**
+ * Minimal view of Node's fs module (avoids a dependency on @types/node)
+ */
+interface NodeFs {
+  existsSync(path: string): boolean;
+  readFileSync(path: string, encoding: 'utf8'): string;
+  writeFileSync(path: string, data: string): void;
+  appendFileSync(path: string, data: string): void;
+  unlinkSync(path: string): void;
+}
+
+/**
+ * Minimal view of Node's os module
+ */
+interface NodeOs {
+  tmpdir(): string;
+}
+
+/**
+ * Offline queue stored in a file with one JSON entry per line (Node only).
+ * Writes are synchronous so entries survive a crash right after logging.
+ */
+export class FileStore implements IOfflineStore {
+  private fs: NodeFs | null = null;
+  private path: string | undefined;
+  private name: string;
+
+  /**
+   * Creates a store
+   * @param name Queue name, used for the default file name
+   * @param path Queue file path (default: smartinspect-<name>.queue in the temp directory)
+   */
+  constructor(name: string, path?: string) {
+    this.name = name;
+    this.path = path;
+  }
+
+  async readAll(): Promise<QueuedMessage[]> {
+    const { fs, path } = await this.open();
+    if (!fs.existsSync(path)) return [];
+
+    const entries: QueuedMessage[] = [];
+    for (const line of fs.readFileSync(path, 'utf8').split('\n')) {
+      if (!line) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Skip a line cut short by a crash
+      }
+    }
+    return entries;
+  }
+
+  async append(entries: QueuedMessage[]): Promise<void> {
+    const { fs, path } = await this.open();
+    fs.appendFileSync(path, toLines(entries));
+  }
+
+  async replace(entries: QueuedMessage[]): Promise<void> {
+    const { fs, path } = await this.open();
+    fs.writeFileSync(path, toLines(entries));
+  }
+
+  async clear(): Promise<void> {
+    const { fs, path } = await this.open();
+    if (fs.existsSync(path)) {
+      fs.unlinkSync(path);
+    }
+  }
+
+  /**
+   * Load the fs module and resolve the queue file path
+   */
+  private async open(): Promise<{ fs: NodeFs; path: string }> {
+    if (!this.fs) {
+      this.fs = await importNodeModule<NodeFs>('node:fs');
+    }
+    if (this.path === undefined) {
+      const os = await importNodeModule<NodeOs>('node:os');
+      const fileName = `smartinspect-${this.name.replace(/[^\w.-]+/g, '_')}.queue`;
+      this.path = `${os.tmpdir().replace(/[\\/]+$/, '')}/${fileName}`;
+    }
+    return { fs: this.fs, path: this.path };
+  }
+}
+
+/**
+ * Serializes entries as JSON lines
+ */
+function toLines(entries: QueuedMessage[]): string {
+  return entries.map(entry => JSON.stringify(entry) + '\n').join('');
+}
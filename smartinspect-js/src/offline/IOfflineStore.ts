@@ -0,0 +1,27 @@
+import type { Message } from '../types';
+
+/**
+ * A message waiting in the offline queue
+ */
+export interface QueuedMessage {
+  /** Time the message was queued (milliseconds since epoch) */
+  time: number;
+  message: Message;
+}
+
+/**
+ * Storage for the offline queue. Entries are kept in insertion order.
+ */
+export interface IOfflineStore {
+  /** Read all entries, oldest first */
+  readAll(): Promise<QueuedMessage[]>;
+
+  /** Add entries after the existing ones */
+  append(entries: QueuedMessage[]): Promise<void>;
+
+  /** Replace all entries, e.g. after dropping the oldest ones */
+  replace(entries: QueuedMessage[]): Promise<void>;
+
+  /** Remove all entries */
+  clear(): Promise<void>;
+}
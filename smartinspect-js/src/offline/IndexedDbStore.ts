@@ -0,0 +1,91 @@
+import type { IOfflineStore, QueuedMessage } from './IOfflineStore';
+
+const STORE_NAME = 'messages';
+
+/**
+ * Offline queue stored in IndexedDB (browsers and workers)
+ */
+export class IndexedDbStore implements IOfflineStore {
+  private databaseName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Creates a store
+   * @param name Queue name; each queue uses its own database
+   */
+  constructor(name: string) {
+    this.databaseName = `smartinspect-queue-${name}`;
+  }
+
+  /**
+   * Checks whether IndexedDB is available
+   */
+  static get isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async readAll(): Promise<QueuedMessage[]> {
+    const result = await this.run('readonly', store => store.getAll());
+    return result as QueuedMessage[];
+  }
+
+  async append(entries: QueuedMessage[]): Promise<void> {
+    await this.run('readwrite', store => {
+      for (const entry of entries) {
+        store.add(entry);
+      }
+    });
+  }
+
+  async replace(entries: QueuedMessage[]): Promise<void> {
+    await this.run('readwrite', store => {
+      store.clear();
+      for (const entry of entries) {
+        store.add(entry);
+      }
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear());
+  }
+
+  /**
+   * Run requests in a single transaction and wait for it to complete
+   * @returns The result of the request returned by the callback, if any
+   */
+  private async run(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest | void): Promise<unknown> {
+    const database = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, mode);
+      const request = action(transaction.objectStore(STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request?.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Open (and create on first use) the database
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+
+        request.onupgradeneeded = () => {
+          // Auto-increment keys keep entries in insertion order
+          request.result.createObjectStore(STORE_NAME, { autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.database = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,54 @@
+import type { IOfflineStore, QueuedMessage } from './IOfflineStore';
+
+/**
+ * Offline queue stored as a JSON array in localStorage. Used in browsers
+ * without IndexedDB; keep maxBytes well below the ~5 MB localStorage quota.
+ */
+export class LocalStorageStore implements IOfflineStore {
+  private key: string;
+
+  /**
+   * Creates a store
+   * @param name Queue name; each queue uses its own key
+   */
+  constructor(name: string) {
+    this.key = `smartinspect-queue-${name}`;
+  }
+
+  /**
+   * Checks whether localStorage is available
+   */
+  static get isSupported(): boolean {
+    try {
+      return typeof localStorage !== 'undefined';
+    } catch {
+      // Accessing localStorage throws when storage is blocked
+      return false;
+    }
+  }
+
+  async readAll(): Promise<QueuedMessage[]> {
+    const value = localStorage.getItem(this.key);
+    if (!value) return [];
+
+    try {
+      const entries = JSON.parse(value);
+      return Array.isArray(entries) ? entries : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async append(entries: QueuedMessage[]): Promise<void> {
+    const existing = await this.readAll();
+    await this.replace([...existing, ...entries]);
+  }
+
+  async replace(entries: QueuedMessage[]): Promise<void> {
+    localStorage.setItem(this.key, JSON.stringify(entries));
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(this.key);
+  }
+}
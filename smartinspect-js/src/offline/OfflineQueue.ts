@@ -0,0 +1,179 @@
+import type { Message, OfflineQueueOptions } from '../types';
+import type { IOfflineStore, QueuedMessage } from './IOfflineStore';
+
+/**
+ * Persistent queue for messages that could not be sent. Connections add
+ * messages while offline and drain the queue after the next successful
+ * connect, so logs survive reloads, crashes and network outages.
+ *
+ * Log entries without a client timestamp are stamped with the time they
+ * were queued, so replayed entries keep their original time in the console.
+ */
+export class OfflineQueue {
+  private store: IOfflineStore;
+  private entries: QueuedMessage[] | null = null;
+  private sizes: number[] = [];
+  private bytes: number = 0;
+  private pending: Promise<unknown> = Promise.resolve();
+  private encoder = new TextEncoder();
+
+  // Configuration
+  public maxBytes: number = 1024 * 1024;
+  public ttl: number = 24 * 60 * 60 * 1000;
+
+  /** Called when the store fails; the queue keeps working in memory */
+  public onError?: (error: Error) => void;
+
+  constructor(store: IOfflineStore, options?: OfflineQueueOptions) {
+    this.store = store;
+    this.configure(options);
+  }
+
+  /**
+   * Apply options to the queue. Can be called again at runtime.
+   */
+  configure(options?: OfflineQueueOptions): void {
+    if (options) {
+      if (options.maxBytes !== undefined) this.maxBytes = options.maxBytes;
+      if (options.ttl !== undefined) this.ttl = options.ttl;
+    }
+  }
+
+  /**
+   * Gets the number of queued messages known so far. Entries from a previous
+   * run are only counted after the queue was first used.
+   */
+  get length(): number {
+    return this.entries?.length ?? 0;
+  }
+
+  /**
+   * Gets the approximate size of the queued messages in bytes
+   */
+  get size(): number {
+    return this.bytes;
+  }
+
+  /**
+   * Add a message to the end of the queue, dropping the oldest entries
+   * when the size limit is exceeded
+   */
+  add(message: Message): void {
+    const time = Date.now();
+    const entry: QueuedMessage = {
+      time,
+      message: message.type === 'logEntry' && message.timestamp === undefined
+        ? { ...message, timestamp: new Date(time).toISOString() }
+        : message
+    };
+
+    this.enqueue(async () => {
+      const entries = await this.load();
+      const size = this.measure(entry);
+
+      entries.push(entry);
+      this.sizes.push(size);
+      this.bytes += size;
+
+      if (this.bytes > this.maxBytes) {
+        this.trim();
+        await this.store.replace(entries);
+      } else {
+        await this.store.append([entry]);
+      }
+    }).catch(error => this.onError?.(error as Error));
+  }
+
+  /**
+   * Remove and return all messages that have not expired, oldest first
+   */
+  drain(): Promise<Message[]> {
+    return this.enqueue(async () => {
+      const entries = await this.load();
+      const messages = entries.map(entry => entry.message);
+
+      this.entries = [];
+      this.sizes = [];
+      this.bytes = 0;
+      try {
+        await this.store.clear();
+      } catch (error) {
+        // Replay anyway; at worst the messages are sent twice
+        this.onError?.(error as Error);
+      }
+
+      return messages;
+    });
+  }
+
+  /**
+   * Remove all queued messages
+   */
+  clear(): Promise<void> {
+    return this.enqueue(async () => {
+      this.entries = [];
+      this.sizes = [];
+      this.bytes = 0;
+      await this.store.clear();
+    });
+  }
+
+  /**
+   * Run store operations one at a time, in call order
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(operation);
+    this.pending = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Load entries from the store on first use and drop expired ones
+   */
+  private async load(): Promise<QueuedMessage[]> {
+    if (this.entries === null) {
+      let stored: QueuedMessage[] = [];
+      try {
+        stored = await this.store.readAll();
+      } catch (error) {
+        this.onError?.(error as Error);
+      }
+      this.entries = stored;
+      this.sizes = stored.map(entry => this.measure(entry));
+      this.bytes = this.sizes.reduce((sum, size) => sum + size, 0);
+    }
+
+    if (this.ttl > 0) {
+      const cutoff = Date.now() - this.ttl;
+      while (this.entries.length > 0 && this.entries[0].time < cutoff) {
+        this.removeOldest();
+      }
+    }
+
+    return this.entries;
+  }
+
+  /**
+   * Drop the oldest entries until the queue fits into maxBytes
+   */
+  private trim(): void {
+    while (this.bytes > this.maxBytes && this.entries && this.entries.length > 0) {
+      this.removeOldest();
+    }
+  }
+
+  /**
+   * Remove the oldest entry
+   */
+  private removeOldest(): void {
+    this.entries?.shift();
+    this.bytes -= this.sizes.shift() ?? 0;
+  }
+
+  /**
+   * Gets the serialized size of an entry in bytes
+   */
+  private measure(entry: QueuedMessage): number {
+    return this.encoder.encode(JSON.stringify(entry)).length;
+  }
+}
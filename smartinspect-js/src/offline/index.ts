@@ -0,0 +1,38 @@
+import type { OfflineQueueOptions } from '../types';
+import type { IOfflineStore } from './IOfflineStore';
+import { IndexedDbStore } from './IndexedDbStore';
+import { LocalStorageStore } from './LocalStorageStore';
+import { FileStore } from './FileStore';
+import { getRuntime } from '../runtime';
+
+export type { IOfflineStore, QueuedMessage } from './IOfflineStore';
+export { OfflineQueue } from './OfflineQueue';
+export { IndexedDbStore } from './IndexedDbStore';
+export { LocalStorageStore } from './LocalStorageStore';
+export { FileStore } from './FileStore';
+
+/**
+ * Creates the store for an offline queue. With 'auto' storage, Node uses a
+ * file and browsers use IndexedDB, falling back to localStorage.
+ * @param options Queue options
+ * @param name Queue name
+ * @returns The store, or null if 'auto' found no storage in this runtime
+ */
+export function createOfflineStore(options: OfflineQueueOptions, name: string): IOfflineStore | null {
+  const storage = options.storage ?? 'auto';
+
+  if (storage === 'file' || (storage === 'auto' && getRuntime().name === 'node')) {
+    return new FileStore(name, options.path);
+  }
+  if ((storage === 'auto' || storage === 'indexedDB') && IndexedDbStore.isSupported) {
+    return new IndexedDbStore(name);
+  }
+  if ((storage === 'auto' || storage === 'localStorage') && LocalStorageStore.isSupported) {
+    return new LocalStorageStore(name);
+  }
+
+  if (storage !== 'auto') {
+    throw new Error(`Offline storage '${storage}' is not available in this runtime`);
+  }
+  return null;
+}
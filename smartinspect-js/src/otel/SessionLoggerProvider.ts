@@ -0,0 +1,55 @@
+import type { Session } from '../Session';
+import { describeBody, entryTypeForSeverity, toProperties } from './mapping';
+import type { LogRecord, Logger, LoggerProvider } from './types';
+
+/**
+ * OpenTelemetry logger provider that logs to a session, so code using the
+ * OpenTelemetry logs API shows up in SmartInspect Console. Records are
+ * logged when emitted and filtered by the session's level.
+ *
+ * @example
+ * ```typescript
+ * import { logs } from '@opentelemetry/api-logs';
+ *
+ * logs.setGlobalLoggerProvider(new SessionLoggerProvider(si.addSession('OTel')));
+ * logs.getLogger('checkout').emit({ severityNumber: SeverityNumber.WARN, body: 'Cart expired' });
+ * ```
+ */
+export class SessionLoggerProvider implements LoggerProvider {
+  private session: Session;
+
+  /**
+   * Creates a new SessionLoggerProvider
+   * @param session Session to log to
+   */
+  constructor(session: Session) {
+    this.session = session;
+  }
+
+  /**
+   * Gets a logger; all loggers log to the provider's session
+   * @param name Name of the logger, the title of records without a string body
+   */
+  getLogger(name: string): Logger {
+    return {
+      emit: (record: LogRecord) => this.emit(name, record)
+    };
+  }
+
+  /**
+   * Logs a record: the severity becomes the entry type, a string body the
+   * title (other bodies are logged as JSON) and attributes context properties
+   */
+  private emit(loggerName: string, record: LogRecord): void {
+    const { title, data } = describeBody(record.body, record.severityText ?? loggerName);
+    const properties = toProperties(record.attributes);
+    const session = properties ? this.session.withContext(properties) : this.session;
+
+    session.logCustomText(
+      entryTypeForSeverity(record.severityNumber, record.severityText),
+      title,
+      data,
+      data !== undefined ? 'json' : undefined
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import type { IConnection } from '../connections/IConnection';
+import { nextSequence } from '../stamps';
+import type { LogEntryMessage } from '../types';
+import {
+  describeBody,
+  entryTypeForSeverity,
+  formatTime,
+  resourceAttribute,
+  sendThrough,
+  toProperties,
+  type OtelExporterOptions
+} from './mapping';
+import type { ExportResult, ReadableLogRecord } from './types';
+
+/**
+ * OpenTelemetry log record exporter that sends records to SmartInspect
+ * Console as log entries. The severity becomes the entry type, a string
+ * body the title (other bodies are sent as JSON data), attributes become
+ * context properties, and the record's span its trace and span ID.
+ *
+ * @example
+ * ```typescript
+ * import { LoggerProvider, SimpleLogRecordProcessor } from '@opentelemetry/sdk-logs';
+ *
+ * const provider = new LoggerProvider({
+ *   processors: [new SimpleLogRecordProcessor(new SmartInspectLogRecordExporter(si.currentConnection))]
+ * });
+ * ```
+ */
+export class SmartInspectLogRecordExporter {
+  private connection: IConnection;
+  private options: OtelExporterOptions;
+  private stopped: boolean = false;
+
+  /**
+   * Creates a new SmartInspectLogRecordExporter
+   * @param connection Connection to send through, e.g. si.currentConnection
+   * @param options Names for the entries and redaction
+   */
+  constructor(connection: IConnection, options: OtelExporterOptions = {}) {
+    this.connection = connection;
+    this.options = options;
+  }
+
+  /**
+   * Sends log records; called by the log record processor
+   */
+  export(logs: ReadableLogRecord[], resultCallback: (result: ExportResult) => void): void {
+    if (this.stopped) {
+      resultCallback({ code: 1, error: new Error('Exporter has been shut down') });
+      return;
+    }
+
+    try {
+      for (const record of logs) {
+        sendThrough(this.connection, this.toMessage(record), this.options.redactor);
+      }
+      resultCallback({ code: 0 });
+    } catch (error) {
+      resultCallback({ code: 1, error: error as Error });
+    }
+  }
+
+  /**
+   * Stops exporting; the connection stays open
+   */
+  shutdown(): Promise<void> {
+    this.stopped = true;
+    return Promise.resolve();
+  }
+
+  /**
+   * Nothing to flush; messages are handed to the connection right away
+   */
+  forceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /**
+   * Maps a log record to a log entry message
+   */
+  private toMessage(record: ReadableLogRecord): LogEntryMessage {
+    const { title, data } = describeBody(record.body, record.severityText ?? 'Log record');
+
+    return {
+      type: 'logEntry',
+      logEntryType: entryTypeForSeverity(record.severityNumber, record.severityText),
+      session: this.options.session ?? (record.instrumentationScope.name || 'OpenTelemetry'),
+      appName: this.options.appName ?? resourceAttribute(record.resource, 'service.name'),
+      hostName: this.options.hostName ?? resourceAttribute(record.resource, 'host.name'),
+      title,
+      data,
+      viewerId: data !== undefined ? 'json' : undefined,
+      properties: toProperties(record.attributes),
+      timestamp: formatTime(record.hrTime),
+      sequence: nextSequence(),
+      traceId: record.spanContext?.traceId,
+      spanId: record.spanContext?.spanId
+    };
+  }
+}
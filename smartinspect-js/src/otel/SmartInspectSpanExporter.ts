@@ -0,0 +1,182 @@
+import type { IConnection } from '../connections/IConnection';
+import { nextSequence } from '../stamps';
+import type { LogEntryMessage, ProcessFlowMessage } from '../types';
+import {
+  durationBetween,
+  formatTime,
+  resourceAttribute,
+  sendThrough,
+  toProperties,
+  type OtelExporterOptions
+} from './mapping';
+import type { ExportResult, HrTime, ReadableSpan } from './types';
+
+/**
+ * A message of an exported span, ordered by time before it is sent
+ */
+interface SpanEvent {
+  time: HrTime;
+  /** Order of messages at the same time: enter, error, leave */
+  order: number;
+  message: LogEntryMessage | ProcessFlowMessage;
+}
+
+/**
+ * OpenTelemetry span exporter that sends spans to SmartInspect Console as
+ * process flow: an enterMethod at the span's start and a leaveMethod with
+ * its duration at the end, plus an error entry for failed spans. Messages
+ * carry the trace, span and parent span ID; the span's attributes go with
+ * the enterMethod as context properties.
+ *
+ * Spans are exported when they end, children before their parents. Within
+ * one batch, messages are sent in time order and nested by parent; use a
+ * batch span processor to keep spans of one operation together.
+ *
+ * @example
+ * ```typescript
+ * import { BatchSpanProcessor, WebTracerProvider } from '@opentelemetry/sdk-trace-web';
+ *
+ * const provider = new WebTracerProvider({
+ *   spanProcessors: [new BatchSpanProcessor(new SmartInspectSpanExporter(si.currentConnection))]
+ * });
+ * ```
+ */
+export class SmartInspectSpanExporter {
+  private connection: IConnection;
+  private options: OtelExporterOptions;
+  private stopped: boolean = false;
+
+  /**
+   * Creates a new SmartInspectSpanExporter
+   * @param connection Connection to send through, e.g. si.currentConnection
+   * @param options Names for the messages and redaction
+   */
+  constructor(connection: IConnection, options: OtelExporterOptions = {}) {
+    this.connection = connection;
+    this.options = options;
+  }
+
+  /**
+   * Sends spans; called by the span processor
+   */
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    if (this.stopped) {
+      resultCallback({ code: 1, error: new Error('Exporter has been shut down') });
+      return;
+    }
+
+    try {
+      const depths = nestingDepths(spans);
+      const events = spans.flatMap(span => this.toEvents(span, depths.get(span) ?? 1));
+      events.sort((a, b) => a.time[0] - b.time[0] || a.time[1] - b.time[1] || a.order - b.order);
+
+      for (const { message } of events) {
+        message.sequence = nextSequence();
+        sendThrough(this.connection, message, this.options.redactor);
+      }
+      resultCallback({ code: 0 });
+    } catch (error) {
+      resultCallback({ code: 1, error: error as Error });
+    }
+  }
+
+  /**
+   * Stops exporting; the connection stays open
+   */
+  shutdown(): Promise<void> {
+    this.stopped = true;
+    return Promise.resolve();
+  }
+
+  /**
+   * Nothing to flush; messages are handed to the connection right away
+   */
+  forceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /**
+   * Maps a span to its enter, error and leave messages
+   */
+  private toEvents(span: ReadableSpan, depth: number): SpanEvent[] {
+    const { traceId, spanId } = span.spanContext();
+    const header = {
+      session: this.options.session ?? (span.instrumentationScope?.name || 'OpenTelemetry'),
+      appName: this.options.appName ?? resourceAttribute(span.resource, 'service.name'),
+      hostName: this.options.hostName ?? resourceAttribute(span.resource, 'host.name'),
+      traceId,
+      spanId,
+      parentSpanId: parentSpanId(span)
+    };
+
+    const enter: ProcessFlowMessage = {
+      type: 'processFlow',
+      flowType: 'enterMethod',
+      title: span.name,
+      depth,
+      properties: toProperties(span.attributes),
+      timestamp: formatTime(span.startTime),
+      ...header
+    };
+    const leave: ProcessFlowMessage = {
+      type: 'processFlow',
+      flowType: 'leaveMethod',
+      title: span.name,
+      depth,
+      elapsed: durationBetween(span.startTime, span.endTime),
+      timestamp: formatTime(span.endTime),
+      ...header
+    };
+
+    const events: SpanEvent[] = [
+      { time: span.startTime, order: 0, message: enter },
+      { time: span.endTime, order: 2, message: leave }
+    ];
+    if (span.status.code === 2) {
+      events.push({
+        time: span.endTime,
+        order: 1,
+        message: {
+          type: 'logEntry',
+          logEntryType: 'error',
+          title: `${span.name} failed${span.status.message ? `: ${span.status.message}` : ''}`,
+          timestamp: formatTime(span.endTime),
+          ...header
+        }
+      });
+    }
+    return events;
+  }
+}
+
+/**
+ * Gets the parent span ID in either SDK version
+ */
+function parentSpanId(span: ReadableSpan): string | undefined {
+  return span.parentSpanContext?.spanId ?? span.parentSpanId;
+}
+
+/**
+ * Gets the nesting depth of each span, counting parents within the batch
+ */
+function nestingDepths(spans: ReadableSpan[]): Map<ReadableSpan, number> {
+  const byId = new Map(spans.map(span => [span.spanContext().spanId, span]));
+  const depths = new Map<ReadableSpan, number>();
+
+  const depthOf = (span: ReadableSpan, seen: Set<ReadableSpan>): number => {
+    const known = depths.get(span);
+    if (known !== undefined) return known;
+
+    const parentId = parentSpanId(span);
+    const parent = parentId !== undefined ? byId.get(parentId) : undefined;
+    // Guard against cycles in malformed input
+    const depth = parent && !seen.has(parent) ? depthOf(parent, seen.add(span)) + 1 : 1;
+    depths.set(span, depth);
+    return depth;
+  };
+
+  for (const span of spans) {
+    depthOf(span, new Set());
+  }
+  return depths;
+}
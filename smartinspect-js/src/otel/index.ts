@@ -0,0 +1,4 @@
+export { SmartInspectLogRecordExporter } from './SmartInspectLogRecordExporter';
+export { SmartInspectSpanExporter } from './SmartInspectSpanExporter';
+export { SessionLoggerProvider } from './SessionLoggerProvider';
+export type { OtelExporterOptions } from './mapping';
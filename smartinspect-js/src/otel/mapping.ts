@@ -0,0 +1,109 @@
+import type { IConnection } from '../connections/IConnection';
+import type { Redactor } from '../Redactor';
+import { formatTimestamp } from '../stamps';
+import type { ContextProperties, LogEntryType, Message } from '../types';
+import type { AnyValue, Attributes, HrTime, Resource, TimeInput } from './types';
+
+/**
+ * Options for SmartInspectLogRecordExporter and SmartInspectSpanExporter
+ */
+export interface OtelExporterOptions {
+  /** Application name (default: the resource's 'service.name') */
+  appName?: string;
+  /** Host name (default: the resource's 'host.name') */
+  hostName?: string;
+  /** Session name (default: the instrumentation scope's name) */
+  session?: string;
+  /** Redaction applied before messages are sent, e.g. si.redactor */
+  redactor?: Redactor;
+}
+
+/** Severity numbers where each OpenTelemetry severity range starts */
+const SEVERITY_RANGES: Array<[number, LogEntryType]> = [
+  [21, 'fatal'],
+  [17, 'error'],
+  [13, 'warning'],
+  [9, 'message'],
+  [1, 'debug']
+];
+
+/** Severity texts and their entry types, for records without a severity number */
+const SEVERITY_TEXTS: Record<string, LogEntryType> = {
+  trace: 'debug',
+  debug: 'debug',
+  verbose: 'verbose',
+  info: 'message',
+  information: 'message',
+  warn: 'warning',
+  warning: 'warning',
+  error: 'error',
+  fatal: 'fatal',
+  critical: 'fatal'
+};
+
+/**
+ * Gets the log entry type for an OpenTelemetry severity: TRACE and DEBUG
+ * are debug entries, INFO messages, WARN warnings, ERROR errors and FATAL
+ * fatal entries
+ */
+export function entryTypeForSeverity(severityNumber?: number, severityText?: string): LogEntryType {
+  if (severityNumber !== undefined && severityNumber > 0) {
+    return SEVERITY_RANGES.find(([start]) => severityNumber >= start)?.[1] ?? 'message';
+  }
+  return SEVERITY_TEXTS[severityText?.trim().toLowerCase() ?? ''] ?? 'message';
+}
+
+/**
+ * Formats an OpenTelemetry time as an ISO 8601 timestamp with microseconds
+ */
+export function formatTime(time: TimeInput): string {
+  if (Array.isArray(time)) return formatTimestamp(time[0] * 1000 + time[1] / 1e6);
+  return formatTimestamp(time instanceof Date ? time.getTime() : time);
+}
+
+/**
+ * Gets the milliseconds between two HrTimes
+ */
+export function durationBetween(start: HrTime, end: HrTime): number {
+  return (end[0] - start[0]) * 1000 + (end[1] - start[1]) / 1e6;
+}
+
+/**
+ * Converts attributes to context properties; arrays are sent as JSON
+ * @returns The properties, or undefined if there are none
+ */
+export function toProperties(attributes: Attributes | undefined): ContextProperties | undefined {
+  if (!attributes) return undefined;
+
+  const properties: ContextProperties = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value === undefined) continue;
+    properties[key] = Array.isArray(value) ? JSON.stringify(value) : value;
+  }
+  return Object.keys(properties).length > 0 ? properties : undefined;
+}
+
+/**
+ * Splits a log record body into a title and data: strings are the title,
+ * other values are sent as JSON data under the fallback title
+ */
+export function describeBody(body: AnyValue, fallbackTitle: string): { title: string; data?: string } {
+  if (typeof body === 'string') return { title: body };
+  if (body === undefined || body === null) return { title: fallbackTitle };
+  return { title: fallbackTitle, data: JSON.stringify(body, null, 2) };
+}
+
+/**
+ * Reads a string attribute of a resource
+ */
+export function resourceAttribute(resource: Resource | undefined, key: string): string | undefined {
+  const value = resource?.attributes[key];
+  return value === undefined ? undefined : String(value);
+}
+
+/**
+ * Sends a message through a connection, redacted if a redactor is given
+ */
+export function sendThrough(connection: IConnection, message: Message, redactor: Redactor | undefined): void {
+  connection.send(redactor ? redactor.redact(message) : message);
+}
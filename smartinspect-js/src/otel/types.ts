@@ -0,0 +1,97 @@
+/**
+ * The parts of the OpenTelemetry JS types the bridge uses. They are declared
+ * here rather than imported, so OpenTelemetry is not a dependency; objects
+ * of the real types fit them.
+ */
+
+/** Seconds and nanoseconds since the epoch, as in @opentelemetry/api */
+export type HrTime = [number, number];
+
+/** A time as accepted by the logs API: HrTime, milliseconds since the epoch or a Date */
+export type TimeInput = HrTime | number | Date;
+
+/** Attribute value, as in @opentelemetry/api */
+export type AttributeValue = string | number | boolean | Array<string | number | boolean | null | undefined>;
+
+/** Attributes of a span, log record or resource */
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+/** Log record body: any JSON-like value */
+export type AnyValue = unknown;
+
+/** Trace and span a span or log record belongs to */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags?: number;
+}
+
+/** Resource describing the service, e.g. its 'service.name' */
+export interface Resource {
+  attributes: Attributes;
+}
+
+/** Library that created a span or log record */
+export interface InstrumentationScope {
+  name: string;
+  version?: string;
+}
+
+/** Result passed to an exporter's callback; code 0 is success, 1 failure */
+export interface ExportResult {
+  code: 0 | 1;
+  error?: Error;
+}
+
+/** Finished log record, as in @opentelemetry/sdk-logs */
+export interface ReadableLogRecord {
+  hrTime: HrTime;
+  spanContext?: SpanContext;
+  severityText?: string;
+  severityNumber?: number;
+  body?: AnyValue;
+  resource: Resource;
+  instrumentationScope: InstrumentationScope;
+  attributes: Attributes;
+}
+
+/** Status of a span; code 2 is an error */
+export interface SpanStatus {
+  code: 0 | 1 | 2;
+  message?: string;
+}
+
+/** Finished span, as in @opentelemetry/sdk-trace-base 1.x and 2.x */
+export interface ReadableSpan {
+  name: string;
+  spanContext(): SpanContext;
+  /** Parent span in sdk-trace-base 2.x */
+  parentSpanContext?: SpanContext;
+  /** Parent span in sdk-trace-base 1.x */
+  parentSpanId?: string;
+  startTime: HrTime;
+  endTime: HrTime;
+  status: SpanStatus;
+  attributes: Attributes;
+  resource: Resource;
+  instrumentationScope?: InstrumentationScope;
+}
+
+/** Log record emitted through the logs API, as in @opentelemetry/api-logs */
+export interface LogRecord {
+  timestamp?: TimeInput;
+  severityNumber?: number;
+  severityText?: string;
+  body?: AnyValue;
+  attributes?: Attributes;
+}
+
+/** Logger of the logs API */
+export interface Logger {
+  emit(logRecord: LogRecord): void;
+}
+
+/** Logger provider of the logs API */
+export interface LoggerProvider {
+  getLogger(name: string, version?: string, options?: object): Logger;
+}
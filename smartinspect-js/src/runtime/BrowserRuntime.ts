@@ -0,0 +1,96 @@
+import type {
+  ContextStorage,
+  ExecutionContext,
+  IRuntime,
+  RuntimeMetadata,
+  RuntimeName,
+  TimerHandle,
+  UncaughtErrorHandler
+} from './IRuntime';
+import { SyncContextStorage } from './SyncContextStorage';
+import { listenForUncaughtErrors } from './uncaughtErrors';
+import { runInternal } from '../network/internal';
+
+/**
+ * Runtime for browser pages (window and document available)
+ */
+export class BrowserRuntime implements IRuntime {
+  readonly name: RuntimeName = 'browser';
+
+  setTimeout(handler: () => void, ms: number): TimerHandle {
+    return window.setTimeout(handler, ms);
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    window.clearTimeout(handle);
+  }
+
+  setInterval(handler: () => void, ms: number): TimerHandle {
+    return window.setInterval(handler, ms);
+  }
+
+  clearInterval(handle: TimerHandle): void {
+    window.clearInterval(handle);
+  }
+
+  onShutdown(handler: () => void): () => void {
+    const visibilityHandler = () => {
+      if (document.visibilityState === 'hidden') {
+        handler();
+      }
+    };
+
+    window.addEventListener('beforeunload', handler);
+    document.addEventListener('visibilitychange', visibilityHandler);
+
+    return () => {
+      window.removeEventListener('beforeunload', handler);
+      document.removeEventListener('visibilitychange', visibilityHandler);
+    };
+  }
+
+  onUnload(handler: () => void): () => void {
+    // pagehide also fires where beforeunload doesn't, e.g. on mobile
+    window.addEventListener('pagehide', handler);
+    return () => window.removeEventListener('pagehide', handler);
+  }
+
+  onUncaughtError(handler: UncaughtErrorHandler): () => void {
+    return listenForUncaughtErrors(window, handler);
+  }
+
+  getMetadata(): RuntimeMetadata {
+    return {
+      userAgent: navigator.userAgent,
+      url: window.location.href,
+      hostName: window.location.host
+    };
+  }
+
+  getExecutionContext(): ExecutionContext {
+    return { threadId: 0, contextId: 'main' };
+  }
+
+  createContextStorage<T>(): ContextStorage<T> {
+    return new SyncContextStorage<T>();
+  }
+
+  sendBeacon(url: string, body: string, headers?: Record<string, string>): void {
+    if (headers) {
+      // navigator.sendBeacon can't set headers
+      runInternal(() => fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body,
+        keepalive: true
+      })).catch(() => {});
+    } else if (navigator.sendBeacon) {
+      const blob = new Blob([body], { type: 'application/json' });
+      navigator.sendBeacon(url, blob);
+    }
+  }
+
+  createWebSocket(url: string): WebSocket {
+    return new WebSocket(url);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Handle returned by runtime timer functions
+ */
+export type TimerHandle = ReturnType<typeof setTimeout>;
+
+/**
+ * Name of a supported runtime
+ */
+export type RuntimeName = 'browser' | 'worker' | 'node';
+
+/**
+ * Environment information included with HTTP batches
+ */
+export interface RuntimeMetadata {
+  /** Browser user agent, or a runtime description outside browsers */
+  userAgent: string;
+  /** Page or worker URL, or the script path in Node */
+  url: string;
+  /** Machine host name in Node, the page's host in browsers and workers */
+  hostName: string;
+}
+
+/**
+ * Where code is currently running, attached to every log message
+ */
+export interface ExecutionContext {
+  /** Numeric thread ID: 0 for the main thread, otherwise the worker's ID */
+  threadId: number;
+  /** Context label, stable per thread, e.g. 'main' or 'worker-2' */
+  contextId: string;
+}
+
+/**
+ * Where an uncaught error came from
+ */
+export type UncaughtErrorOrigin = 'error' | 'unhandledRejection';
+
+/**
+ * Receives uncaught errors and unhandled promise rejections
+ * @param error The thrown value or rejection reason
+ * @param origin Whether it was thrown or rejected
+ */
+export type UncaughtErrorHandler = (error: unknown, origin: UncaughtErrorOrigin) => void;
+
+/**
+ * Holds a value for the current call chain. In Node the value follows
+ * async continuations; elsewhere it is only visible to synchronous code
+ * inside run().
+ */
+export interface ContextStorage<T> {
+  /** Gets the value for the current call chain */
+  get(): T | undefined;
+
+  /** Runs a function with the value set for everything it calls */
+  run<R>(value: T, fn: () => R): R;
+}
+
+/**
+ * Abstraction over the host environment, so connections work in
+ * browsers, Web/Service Workers, Deno and Node.
+ */
+export interface IRuntime {
+  /** Runtime name, used as client ID prefix */
+  readonly name: RuntimeName;
+
+  /** Schedule a one-shot timer */
+  setTimeout(handler: () => void, ms: number): TimerHandle;
+
+  /** Cancel a one-shot timer */
+  clearTimeout(handle: TimerHandle): void;
+
+  /** Schedule a repeating timer */
+  setInterval(handler: () => void, ms: number): TimerHandle;
+
+  /** Cancel a repeating timer */
+  clearInterval(handle: TimerHandle): void;
+
+  /**
+   * Register a handler invoked when the page, worker or process is about to go away
+   * @returns A function that removes the handler
+   */
+  onShutdown(handler: () => void): () => void;
+
+  /**
+   * Register a handler invoked only when the page, worker or process goes
+   * away for good, unlike onShutdown not when a page is hidden. Runtimes
+   * without it have no difference and use onShutdown.
+   * @returns A function that removes the handler
+   */
+  onUnload?(handler: () => void): () => void;
+
+  /**
+   * Register a handler for uncaught errors and unhandled promise rejections.
+   * Does not change how the runtime itself reports them.
+   * @returns A function that removes the handler
+   */
+  onUncaughtError(handler: UncaughtErrorHandler): () => void;
+
+  /** Get environment metadata */
+  getMetadata(): RuntimeMetadata;
+
+  /** Get the thread and context the caller runs in */
+  getExecutionContext(): ExecutionContext;
+
+  /** Create storage for values that follow the current call chain */
+  createContextStorage<T>(): ContextStorage<T>;
+
+  /**
+   * Send data without waiting for a response, surviving page unload where possible.
+   * Headers the request can't do without, such as an API key, rule out
+   * navigator.sendBeacon, so a keepalive fetch is used for them.
+   */
+  sendBeacon(url: string, body: string, headers?: Record<string, string>): void;
+
+  /** Create a WebSocket */
+  createWebSocket(url: string): WebSocket;
+}
@@ -0,0 +1,221 @@
+import type {
+  ContextStorage,
+  ExecutionContext,
+  IRuntime,
+  RuntimeMetadata,
+  RuntimeName,
+  TimerHandle,
+  UncaughtErrorHandler
+} from './IRuntime';
+import { SyncContextStorage } from './SyncContextStorage';
+import { runInternal } from '../network/internal';
+
+/**
+ * Minimal view of Node's process object (avoids a dependency on @types/node)
+ */
+interface NodeProcess {
+  pid: number;
+  version: string;
+  platform: string;
+  argv: string[];
+  versions: { node?: string };
+  on(event: 'uncaughtExceptionMonitor', listener: (error: unknown, origin: string) => void): void;
+  on(event: string, listener: () => void): void;
+  off(event: 'uncaughtExceptionMonitor', listener: (error: unknown, origin: string) => void): void;
+  off(event: string, listener: () => void): void;
+  getBuiltinModule?(id: string): unknown;
+}
+
+/**
+ * Minimal view of Node's worker_threads module
+ */
+interface NodeWorkerThreads {
+  threadId: number;
+}
+
+/**
+ * Minimal view of Node's os module
+ */
+interface NodeOs {
+  hostname(): string;
+}
+
+/**
+ * Minimal view of Node's async_hooks module
+ */
+interface NodeAsyncHooks {
+  AsyncLocalStorage: new <T>() => NodeAsyncLocalStorage<T>;
+}
+
+/**
+ * Minimal view of Node's AsyncLocalStorage
+ */
+interface NodeAsyncLocalStorage<T> {
+  getStore(): T | undefined;
+  run<R>(store: T, fn: () => R): R;
+}
+
+/**
+ * Node built-in modules the runtime uses
+ */
+export interface NodeBuiltins {
+  asyncHooks?: NodeAsyncHooks;
+  workerThreads?: NodeWorkerThreads;
+  os?: NodeOs;
+}
+
+/** Built-in modules imported by the Node entry point */
+let registeredBuiltins: NodeBuiltins = {};
+
+/**
+ * Sets the built-in modules for Node runtimes created afterwards. The Node
+ * entry point imports and registers them, which works in every Node version.
+ */
+export function registerNodeBuiltins(builtins: NodeBuiltins): void {
+  registeredBuiltins = builtins;
+}
+
+/**
+ * WebSocket constructor, e.g. the global WebSocket or the 'ws' package
+ */
+export type WebSocketConstructor = new (url: string) => WebSocket;
+
+/**
+ * Options for the Node runtime
+ */
+export interface NodeRuntimeOptions {
+  /** WebSocket implementation for Node versions without a global WebSocket (e.g. the 'ws' package) */
+  WebSocket?: WebSocketConstructor;
+}
+
+/**
+ * Gets Node's process object, if running in Node
+ */
+export function getNodeProcess(): NodeProcess | undefined {
+  const process = (globalThis as { process?: NodeProcess }).process;
+  return process?.versions?.node ? process : undefined;
+}
+
+/**
+ * Imports a Node built-in module at runtime. The non-literal specifier
+ * keeps bundlers from resolving Node modules in browser builds.
+ */
+export async function importNodeModule<T>(name: string): Promise<T> {
+  return await import(/* webpackIgnore: true */ /* @vite-ignore */ name) as T;
+}
+
+/**
+ * Runtime for Node.js. Timers are unref'd so logging never keeps the process alive.
+ */
+export class NodeRuntime implements IRuntime {
+  readonly name: RuntimeName = 'node';
+  private webSocketImpl: WebSocketConstructor | undefined;
+  private workerThreads: NodeWorkerThreads | undefined;
+  private asyncHooks: NodeAsyncHooks | undefined;
+  private os: NodeOs | undefined;
+
+  constructor(options?: NodeRuntimeOptions) {
+    this.webSocketImpl = options?.WebSocket;
+
+    // Registered by the Node entry point; otherwise loaded synchronously where
+    // supported (Node 20.16+). Without them the host name is empty, every call
+    // reports the main thread and context is lost across await.
+    const process = getNodeProcess();
+    this.workerThreads = registeredBuiltins.workerThreads
+      ?? process?.getBuiltinModule?.('node:worker_threads') as NodeWorkerThreads | undefined;
+    this.asyncHooks = registeredBuiltins.asyncHooks
+      ?? process?.getBuiltinModule?.('node:async_hooks') as NodeAsyncHooks | undefined;
+    this.os = registeredBuiltins.os ?? process?.getBuiltinModule?.('node:os') as NodeOs | undefined;
+  }
+
+  setTimeout(handler: () => void, ms: number): TimerHandle {
+    return this.unref(globalThis.setTimeout(handler, ms));
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    globalThis.clearTimeout(handle);
+  }
+
+  setInterval(handler: () => void, ms: number): TimerHandle {
+    return this.unref(globalThis.setInterval(handler, ms));
+  }
+
+  clearInterval(handle: TimerHandle): void {
+    globalThis.clearInterval(handle);
+  }
+
+  onShutdown(handler: () => void): () => void {
+    const process = getNodeProcess();
+    if (!process) return () => {};
+
+    // beforeExit still allows async work such as a final fetch
+    process.on('beforeExit', handler);
+    return () => process.off('beforeExit', handler);
+  }
+
+  onUncaughtError(handler: UncaughtErrorHandler): () => void {
+    const process = getNodeProcess();
+    if (!process) return () => {};
+
+    // The monitor event observes uncaught exceptions without keeping the process
+    // alive, unlike 'uncaughtException'. Unhandled rejections arrive here too,
+    // with origin 'unhandledRejection', when they would terminate the process.
+    const listener = (error: unknown, origin: string) => {
+      handler(error, origin === 'unhandledRejection' ? 'unhandledRejection' : 'error');
+    };
+    process.on('uncaughtExceptionMonitor', listener);
+    return () => process.off('uncaughtExceptionMonitor', listener);
+  }
+
+  getMetadata(): RuntimeMetadata {
+    const process = getNodeProcess();
+    return {
+      userAgent: process ? `Node.js ${process.version} (${process.platform})` : 'Node.js',
+      url: process?.argv[1] ? `file://${process.argv[1]}` : '',
+      hostName: this.os?.hostname() ?? ''
+    };
+  }
+
+  getExecutionContext(): ExecutionContext {
+    const threadId = this.workerThreads?.threadId ?? 0;
+    // Async IDs change with every callback, so the context is the thread; traces
+    // and context properties group the calls of one operation
+    return { threadId, contextId: threadId === 0 ? 'main' : `worker-${threadId}` };
+  }
+
+  createContextStorage<T>(): ContextStorage<T> {
+    if (!this.asyncHooks) {
+      return new SyncContextStorage<T>();
+    }
+
+    const storage = new this.asyncHooks.AsyncLocalStorage<T>();
+    return {
+      get: () => storage.getStore(),
+      run: (value, fn) => storage.run(value, fn)
+    };
+  }
+
+  sendBeacon(url: string, body: string, headers?: Record<string, string>): void {
+    runInternal(() => fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body
+    })).catch(() => {});
+  }
+
+  createWebSocket(url: string): WebSocket {
+    const WebSocketImpl = this.webSocketImpl ?? (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+    if (!WebSocketImpl) {
+      throw new Error('No WebSocket implementation available. Use Node 22+ or pass one via new NodeRuntime({ WebSocket })');
+    }
+    return new WebSocketImpl(url);
+  }
+
+  /**
+   * Unref a Node timer so it does not keep the event loop alive
+   */
+  private unref(handle: TimerHandle): TimerHandle {
+    (handle as { unref?: () => void }).unref?.();
+    return handle;
+  }
+}
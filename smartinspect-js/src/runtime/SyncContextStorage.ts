@@ -0,0 +1,24 @@
+import type { ContextStorage } from './IRuntime';
+
+/**
+ * Context storage for runtimes without async context tracking. The value
+ * is visible to synchronous code inside run(); code after an await sees
+ * the value that was current when run() returned.
+ */
+export class SyncContextStorage<T> implements ContextStorage<T> {
+  private current: T | undefined;
+
+  get(): T | undefined {
+    return this.current;
+  }
+
+  run<R>(value: T, fn: () => R): R {
+    const previous = this.current;
+    this.current = value;
+    try {
+      return fn();
+    } finally {
+      this.current = previous;
+    }
+  }
+}
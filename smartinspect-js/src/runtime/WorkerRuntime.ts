@@ -0,0 +1,95 @@
+import type {
+  ContextStorage,
+  ExecutionContext,
+  IRuntime,
+  RuntimeMetadata,
+  RuntimeName,
+  TimerHandle,
+  UncaughtErrorHandler
+} from './IRuntime';
+import { SyncContextStorage } from './SyncContextStorage';
+import { listenForUncaughtErrors } from './uncaughtErrors';
+import { runInternal } from '../network/internal';
+
+/**
+ * Runtime for Web Workers, Service Workers, Deno and other environments
+ * that provide the standard globals but no window or document
+ */
+export class WorkerRuntime implements IRuntime {
+  readonly name: RuntimeName = 'worker';
+  private context: ExecutionContext | undefined;
+
+  setTimeout(handler: () => void, ms: number): TimerHandle {
+    return globalThis.setTimeout(handler, ms);
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    globalThis.clearTimeout(handle);
+  }
+
+  setInterval(handler: () => void, ms: number): TimerHandle {
+    return globalThis.setInterval(handler, ms);
+  }
+
+  clearInterval(handle: TimerHandle): void {
+    globalThis.clearInterval(handle);
+  }
+
+  onShutdown(_handler: () => void): () => void {
+    // Workers are terminated without notice
+    return () => {};
+  }
+
+  onUncaughtError(handler: UncaughtErrorHandler): () => void {
+    if (typeof globalThis.addEventListener !== 'function') return () => {};
+    return listenForUncaughtErrors(globalThis, handler);
+  }
+
+  getMetadata(): RuntimeMetadata {
+    return {
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'Unknown',
+      url: typeof location !== 'undefined' ? location.href : '',
+      hostName: typeof location !== 'undefined' ? location.host : ''
+    };
+  }
+
+  getExecutionContext(): ExecutionContext {
+    if (!this.context) {
+      this.context = detectWorkerContext();
+    }
+    return this.context;
+  }
+
+  createContextStorage<T>(): ContextStorage<T> {
+    return new SyncContextStorage<T>();
+  }
+
+  sendBeacon(url: string, body: string, headers?: Record<string, string>): void {
+    // sendBeacon is not available in workers; keepalive lets the request outlive the worker
+    runInternal(() => fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+      keepalive: true
+    })).catch(() => {});
+  }
+
+  createWebSocket(url: string): WebSocket {
+    return new WebSocket(url);
+  }
+}
+
+/**
+ * Workers have no numeric thread ID, so each worker picks a random one.
+ * Deno and other runtimes outside a WorkerGlobalScope count as the main thread.
+ */
+function detectWorkerContext(): ExecutionContext {
+  const scope = globalThis as { WorkerGlobalScope?: new () => unknown; name?: string };
+
+  if (typeof scope.WorkerGlobalScope !== 'function' || !(globalThis instanceof scope.WorkerGlobalScope)) {
+    return { threadId: 0, contextId: 'main' };
+  }
+
+  const threadId = 1 + Math.floor(Math.random() * 0x7ffffffe);
+  return { threadId, contextId: `worker-${scope.name || threadId}` };
+}
@@ -0,0 +1,53 @@
+import type { IRuntime } from './IRuntime';
+import { BrowserRuntime } from './BrowserRuntime';
+import { WorkerRuntime } from './WorkerRuntime';
+import { NodeRuntime, getNodeProcess } from './NodeRuntime';
+
+export { getNodeProcess, importNodeModule, registerNodeBuiltins } from './NodeRuntime';
+
+export type {
+  ContextStorage,
+  ExecutionContext,
+  IRuntime,
+  RuntimeMetadata,
+  RuntimeName,
+  TimerHandle,
+  UncaughtErrorHandler,
+  UncaughtErrorOrigin
+} from './IRuntime';
+export { SyncContextStorage } from './SyncContextStorage';
+export { BrowserRuntime } from './BrowserRuntime';
+export { WorkerRuntime } from './WorkerRuntime';
+export { NodeRuntime, type NodeRuntimeOptions, type WebSocketConstructor } from './NodeRuntime';
+
+let defaultRuntime: IRuntime | undefined;
+
+/**
+ * Detects the runtime from the available globals
+ */
+export function detectRuntime(): IRuntime {
+  if (typeof window !== 'undefined' && typeof document !== 'undefined') {
+    return new BrowserRuntime();
+  }
+  if (getNodeProcess()) {
+    return new NodeRuntime();
+  }
+  return new WorkerRuntime();
+}
+
+/**
+ * Gets the runtime used by connections that were not given one explicitly
+ */
+export function getRuntime(): IRuntime {
+  if (!defaultRuntime) {
+    defaultRuntime = detectRuntime();
+  }
+  return defaultRuntime;
+}
+
+/**
+ * Sets the runtime used by connections that were not given one explicitly
+ */
+export function setRuntime(runtime: IRuntime): void {
+  defaultRuntime = runtime;
+}
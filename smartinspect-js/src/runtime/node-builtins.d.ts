@@ -0,0 +1,19 @@
+/**
+ * The parts of the Node built-in modules imported by the Node entry point,
+ * declared here so the package does not depend on @types/node
+ */
+
+declare module 'node:async_hooks' {
+  export class AsyncLocalStorage<T> {
+    getStore(): T | undefined;
+    run<R>(store: T, fn: () => R): R;
+  }
+}
+
+declare module 'node:worker_threads' {
+  export const threadId: number;
+}
+
+declare module 'node:os' {
+  export function hostname(): string;
+}
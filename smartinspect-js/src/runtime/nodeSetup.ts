@@ -0,0 +1,13 @@
+/**
+ * Registers Node's built-in modules and the Node runtime. The Node entry
+ * point imports this before anything else, so instances created while the
+ * library loads (such as SiAuto.si) already see the Node runtime.
+ */
+
+import * as asyncHooks from 'node:async_hooks';
+import * as workerThreads from 'node:worker_threads';
+import * as os from 'node:os';
+import { NodeRuntime, registerNodeBuiltins, setRuntime } from './index';
+
+registerNodeBuiltins({ asyncHooks, workerThreads, os });
+setRuntime(new NodeRuntime());
@@ -0,0 +1,29 @@
+import type { UncaughtErrorHandler } from './IRuntime';
+
+/**
+ * Listens for 'error' and 'unhandledrejection' events on a window or worker scope
+ * @returns A function that removes the listeners
+ */
+export function listenForUncaughtErrors(target: EventTarget, handler: UncaughtErrorHandler): () => void {
+  const errorListener = (event: Event) => {
+    const errorEvent = event as ErrorEvent;
+    // Cross-origin scripts only report 'Script error.' without an error object
+    const error = errorEvent.error ?? new Error(
+      errorEvent.filename
+        ? `${errorEvent.message} (${errorEvent.filename}:${errorEvent.lineno}:${errorEvent.colno})`
+        : errorEvent.message
+    );
+    handler(error, 'error');
+  };
+  const rejectionListener = (event: Event) => {
+    handler((event as PromiseRejectionEvent).reason, 'unhandledRejection');
+  };
+
+  target.addEventListener('error', errorListener);
+  target.addEventListener('unhandledrejection', rejectionListener);
+
+  return () => {
+    target.removeEventListener('error', errorListener);
+    target.removeEventListener('unhandledrejection', rejectionListener);
+  };
+}
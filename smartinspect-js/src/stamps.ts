@@ -0,0 +1,61 @@
+import type { MessageStamp } from './types';
+import { getRuntime } from './runtime';
+import { currentTrace } from './tracing';
+
+let sequence = 0;
+
+/**
+ * Gets the current time as an ISO 8601 timestamp. Uses the system clock:
+ * the monotonic clock drifts from it and stops while the machine sleeps.
+ * Entries are ordered by sequence number, not timestamp.
+ */
+export function createTimestamp(): string {
+  return formatTimestamp(Date.now());
+}
+
+/**
+ * Formats a time in milliseconds since the epoch as an ISO 8601 timestamp
+ * with microseconds
+ */
+export function formatTimestamp(time: number): string {
+  const milliseconds = Math.floor(time);
+  const microseconds = Math.floor((time - milliseconds) * 1000);
+
+  // 'YYYY-MM-DDTHH:mm:ss.sssZ' -> 'YYYY-MM-DDTHH:mm:ss.ssssssZ'
+  return `${new Date(milliseconds).toISOString().slice(0, -1)}${microseconds.toString().padStart(3, '0')}Z`;
+}
+
+/**
+ * Gets a monotonic time in milliseconds with sub-millisecond precision where
+ * available. Only meaningful as a difference between two calls.
+ */
+export function monotonicNow(): number {
+  return globalThis.performance ? globalThis.performance.now() : Date.now();
+}
+
+/**
+ * Gets the next sequence number. Sequence numbers are shared by all
+ * SmartInspect instances in the same page, worker or process.
+ */
+export function nextSequence(): number {
+  return ++sequence;
+}
+
+/**
+ * Fills in timestamp, sequence number, thread and context ID, and the
+ * current trace and span if there is one
+ * @returns The same message
+ */
+export function stampMessage<T extends MessageStamp>(message: T): T {
+  const context = getRuntime().getExecutionContext();
+  const trace = currentTrace();
+
+  message.timestamp = createTimestamp();
+  message.sequence = nextSequence();
+  message.threadId = context.threadId;
+  message.contextId = context.contextId;
+  message.traceId = trace?.traceId;
+  message.spanId = trace?.spanId;
+  message.parentSpanId = trace?.parentSpanId;
+  return message;
+}
@@ -0,0 +1,122 @@
+/**
+ * Rows accepted by logTable: an array (or other iterable) of objects, arrays
+ * or primitive values, or a Map or plain object with one row per key
+ */
+export type TableRows = Iterable<unknown> | Map<unknown, unknown> | Record<string, unknown>;
+
+/**
+ * Rows normalized to named columns
+ */
+export interface TableData {
+  columns: string[];
+  rows: unknown[][];
+  /** Number of rows left out, or -1 if unknown (iterables without a size) */
+  omitted: number;
+}
+
+/**
+ * Normalizes rows to named columns. Columns are inferred from the rows in
+ * first-seen order unless given: object keys, array indexes, or 'Value' for
+ * primitives. Maps and plain objects get a leading 'Key' column.
+ * @param data The rows
+ * @param columns Columns to show, in order
+ * @param maxRows Rows after this are left out
+ * @param maxColumns Inferred columns after this are left out
+ */
+export function toTable(data: TableRows, columns: string[] | undefined, maxRows: number, maxColumns: number): TableData {
+  const { keys, values, omitted } = collectRows(data, maxRows);
+  const names = columns ?? inferColumns(values).slice(0, maxColumns);
+
+  const rows = values.map((value, index) => {
+    const cells = names.map(name => cell(value, name));
+    return keys ? [keys[index], ...cells] : cells;
+  });
+
+  return { columns: keys ? ['Key', ...names] : names, rows, omitted };
+}
+
+/**
+ * Takes up to maxRows rows, with their keys for Maps and plain objects
+ */
+function collectRows(data: TableRows, maxRows: number): { keys: unknown[] | null; values: unknown[]; omitted: number } {
+  if (data instanceof Map) {
+    const entries = take(data.entries(), maxRows);
+    return { keys: entries.map(([key]) => key), values: entries.map(([, value]) => value), omitted: data.size - entries.length };
+  }
+
+  if (!isIterable(data)) {
+    const entries = Object.entries(data);
+    const taken = entries.slice(0, maxRows);
+    return { keys: taken.map(([key]) => key), values: taken.map(([, value]) => value), omitted: entries.length - taken.length };
+  }
+
+  if (Array.isArray(data) || data instanceof Set) {
+    const size = Array.isArray(data) ? data.length : data.size;
+    const values = take(data, maxRows);
+    return { keys: null, values, omitted: size - values.length };
+  }
+
+  // Unknown size: read one row ahead to find out whether there is more
+  const values = take(data, maxRows + 1);
+  const more = values.length > maxRows;
+  return { keys: null, values: more ? values.slice(0, maxRows) : values, omitted: more ? -1 : 0 };
+}
+
+/**
+ * Infers columns from the rows in first-seen order
+ */
+function inferColumns(values: unknown[]): string[] {
+  const columns = new Set<string>();
+  let hasPrimitives = false;
+
+  for (const value of values) {
+    if (Array.isArray(value)) {
+      for (let i = 0; i < value.length; i++) columns.add(String(i));
+    } else if (isRecord(value)) {
+      for (const key of Object.keys(value)) columns.add(key);
+    } else {
+      hasPrimitives = true;
+    }
+  }
+
+  if (hasPrimitives) columns.add('Value');
+  return Array.from(columns);
+}
+
+/**
+ * Gets the cell of a row in a column; primitives fill the 'Value' column
+ */
+function cell(value: unknown, column: string): unknown {
+  if (Array.isArray(value) || isRecord(value)) {
+    return (value as Record<string, unknown>)[column];
+  }
+  return column === 'Value' ? value : undefined;
+}
+
+/**
+ * Checks for objects whose properties become columns
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !(value instanceof Date);
+}
+
+/**
+ * Checks whether a value is iterable
+ */
+function isIterable(value: object): value is Iterable<unknown> {
+  return typeof (value as { [Symbol.iterator]?: unknown })[Symbol.iterator] === 'function';
+}
+
+/**
+ * Reads up to count items from an iterable
+ */
+function take<T>(iterable: Iterable<T>, count: number): T[] {
+  const items: T[] = [];
+  if (count <= 0) return items;
+
+  for (const item of iterable) {
+    items.push(item);
+    if (items.length >= count) break;
+  }
+  return items;
+}
@@ -0,0 +1,44 @@
+import type { SourceLanguage, ViewerId } from './types';
+
+/**
+ * Closest console viewer for each source language, for consoles that
+ * don't highlight by language
+ */
+const SOURCE_VIEWERS: Record<SourceLanguage, ViewerId> = {
+  javascript: 'javascript',
+  typescript: 'javascript',
+  json: 'json',
+  graphql: 'javascript',
+  css: 'data',
+  html: 'html',
+  xml: 'xml',
+  yaml: 'ini',
+  ini: 'ini',
+  markdown: 'data',
+  shell: 'data',
+  sql: 'sql',
+  python: 'python'
+};
+
+/**
+ * Gets the console viewer for a source language
+ */
+export function viewerForLanguage(language: SourceLanguage): ViewerId {
+  return SOURCE_VIEWERS[language] ?? 'data';
+}
+
+/**
+ * Prefixes each line with its right-aligned line number, e.g. ' 9 | ' and '10 | '
+ * @param text The text; line endings are kept
+ * @param firstLine Number of the first line
+ */
+export function numberLines(text: string, firstLine: number = 1): string {
+  const lines = text.split('\n');
+  // A final line break doesn't start another line
+  const trailingBreak = lines.length > 1 && lines[lines.length - 1] === '';
+  if (trailingBreak) lines.pop();
+
+  const width = String(firstLine + lines.length - 1).length;
+  const numbered = lines.map((line, index) => `${String(firstLine + index).padStart(width)} | ${line}`);
+  return numbered.join('\n') + (trailingBreak ? '\n' : '');
+}
@@ -0,0 +1,108 @@
+import { Session } from './Session';
+import { SiAuto } from './SmartInspect';
+
+type Method = (this: unknown, ...args: unknown[]) => unknown;
+
+/**
+ * Options for the traced decorator
+ */
+export interface TracedOptions {
+  /** Session to log to (default: SiAuto.main) */
+  session?: Session;
+  /** Method name shown in the console (default: 'ClassName.methodName') */
+  name?: string;
+}
+
+/**
+ * Method decorator returned by traced(options). Works with standard
+ * decorators and with experimentalDecorators.
+ */
+export interface TracedDecorator {
+  <This, Args extends unknown[], Return>(
+    method: (this: This, ...args: Args) => Return,
+    context: ClassMethodDecoratorContext<This, (this: This, ...args: Args) => Return>
+  ): (this: This, ...args: Args) => Return;
+  (target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor): PropertyDescriptor;
+}
+
+/**
+ * Wraps a class method in Session.track: logs enter and leave with the
+ * elapsed time and nesting depth, and logs exceptions. Works with sync
+ * and async methods.
+ *
+ * @example
+ * ```typescript
+ * class UserService {
+ *   @traced
+ *   async load(id: string) { ... }
+ *
+ *   @traced({ session: si.addSession('Cache'), name: 'cache lookup' })
+ *   lookup(key: string) { ... }
+ * }
+ * ```
+ */
+export function traced<This, Args extends unknown[], Return>(
+  method: (this: This, ...args: Args) => Return,
+  context: ClassMethodDecoratorContext<This, (this: This, ...args: Args) => Return>
+): (this: This, ...args: Args) => Return;
+export function traced(target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor): PropertyDescriptor;
+export function traced(options?: TracedOptions | Session): TracedDecorator;
+export function traced(...args: unknown[]): unknown {
+  if (isDecoratorCall(args)) {
+    return decorate({}, args);
+  }
+
+  const options = args[0] instanceof Session ? { session: args[0] } : (args[0] as TracedOptions | undefined) ?? {};
+  return (...decoratorArgs: unknown[]) => decorate(options, decoratorArgs);
+}
+
+/**
+ * Checks whether traced was applied directly (@traced) rather than called (@traced(...))
+ */
+function isDecoratorCall(args: unknown[]): boolean {
+  // Standard: (method, context), legacy: (target, propertyKey, descriptor)
+  return (typeof args[0] === 'function' && isMethodContext(args[1])) ||
+    (args.length === 3 && typeof args[2] === 'object' && args[2] !== null);
+}
+
+/**
+ * Checks for a standard decorator context object
+ */
+function isMethodContext(value: unknown): value is ClassMethodDecoratorContext {
+  return typeof value === 'object' && value !== null && (value as { kind?: unknown }).kind === 'method';
+}
+
+/**
+ * Applies the decorator with either calling convention
+ */
+function decorate(options: TracedOptions, args: unknown[]): unknown {
+  if (isMethodContext(args[1])) {
+    return wrap(args[0] as Method, String(args[1].name), options);
+  }
+
+  const descriptor = args[2] as PropertyDescriptor;
+  if (typeof descriptor.value === 'function') {
+    descriptor.value = wrap(descriptor.value as Method, String(args[1]), options);
+  }
+  return descriptor;
+}
+
+/**
+ * Wraps a method in Session.track
+ */
+function wrap(method: Method, methodName: string, options: TracedOptions): Method {
+  return function (this: unknown, ...args: unknown[]) {
+    const session = options.session ?? SiAuto.main;
+    const name = options.name ?? qualifiedName(this, methodName);
+    return session.track(name, () => method.apply(this, args));
+  };
+}
+
+/**
+ * Gets 'ClassName.methodName' for the instance (or class, for static methods)
+ */
+function qualifiedName(instance: unknown, methodName: string): string {
+  const owner = typeof instance === 'function' ? instance : (instance as object | null | undefined)?.constructor;
+  const className = (owner as { name?: string } | undefined)?.name;
+  return className && className !== 'Object' ? `${className}.${methodName}` : methodName;
+}
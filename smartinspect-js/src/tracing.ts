@@ -0,0 +1,100 @@
+import type { ContextStorage } from './runtime';
+import { getRuntime } from './runtime';
+import type { TraceContext } from './types';
+
+let traceStorage: ContextStorage<TraceContext> | undefined;
+
+/** Trace for code outside any runTrace() scope or tracked method */
+let rootTrace: TraceContext | undefined;
+
+/**
+ * Gets the trace storage, created on first use
+ */
+function getTraceStorage(): ContextStorage<TraceContext> {
+  if (!traceStorage) {
+    traceStorage = getRuntime().createContextStorage<TraceContext>();
+  }
+  return traceStorage;
+}
+
+/**
+ * Gets the span the caller runs in, or undefined if there is no trace
+ */
+export function currentTrace(): TraceContext | undefined {
+  return getTraceStorage().get() ?? rootTrace;
+}
+
+/**
+ * Runs a function in the given span
+ */
+export function runInTrace<R>(trace: TraceContext, fn: () => R): R {
+  return getTraceStorage().run(trace, fn);
+}
+
+/**
+ * Sets or clears the trace for code outside any scope
+ */
+export function setRootTrace(trace: TraceContext | undefined): void {
+  rootTrace = trace;
+}
+
+/**
+ * Starts a trace: continues the one in a traceparent header with a new span,
+ * or generates a new trace ID when there is no valid header
+ */
+export function createTrace(traceparent?: string): TraceContext {
+  const parent = traceparent !== undefined ? parseTraceparent(traceparent) : undefined;
+  if (parent) {
+    return childSpan(parent);
+  }
+  return { traceId: randomHex(16), spanId: randomHex(8), sampled: true };
+}
+
+/**
+ * Creates a span inside another one
+ */
+export function childSpan(parent: TraceContext): TraceContext {
+  return { traceId: parent.traceId, spanId: randomHex(8), parentSpanId: parent.spanId, sampled: parent.sampled };
+}
+
+/**
+ * Parses a W3C traceparent header, e.g. '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+ * @returns The trace and span it names, or undefined if the header is invalid
+ */
+export function parseTraceparent(header: string): TraceContext | undefined {
+  const match = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/.exec(header.trim().toLowerCase());
+  if (!match) return undefined;
+
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version 00 has no further fields; later versions may add some
+  if (version === 'ff' || (version === '00' && rest !== undefined)) return undefined;
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return undefined;
+
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+/**
+ * Formats a span as a W3C traceparent header
+ */
+export function formatTraceparent(trace: TraceContext): string {
+  return `00-${trace.traceId}-${trace.spanId}-${trace.sampled ? '01' : '00'}`;
+}
+
+/**
+ * Generates random bytes as lowercase hex, never all zeros
+ */
+function randomHex(bytes: number): string {
+  const values = new Uint8Array(bytes);
+  const crypto = globalThis.crypto;
+  if (crypto && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(values);
+  } else {
+    for (let i = 0; i < bytes; i++) {
+      values[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  if (values.every(value => value === 0)) {
+    values[bytes - 1] = 1;
+  }
+  return Array.from(values, value => value.toString(16).padStart(2, '0')).join('');
+}
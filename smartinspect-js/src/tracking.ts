@@ -0,0 +1,69 @@
+import type { ContextStorage } from './runtime';
+import { getRuntime } from './runtime';
+
+let depthStorage: ContextStorage<number> | undefined;
+
+/** Errors already logged by a tracked method, so outer methods don't log them again */
+const loggedErrors = new WeakSet<object>();
+
+/**
+ * Gets the call depth storage, created on first use
+ */
+function getDepthStorage(): ContextStorage<number> {
+  if (!depthStorage) {
+    depthStorage = getRuntime().createContextStorage<number>();
+  }
+  return depthStorage;
+}
+
+/**
+ * Gets the depth of tracked methods in the current call chain, 0 outside any
+ */
+export function currentDepth(): number {
+  return getDepthStorage().get() ?? 0;
+}
+
+/**
+ * Runs a function with the given call depth
+ */
+export function runAtDepth<R>(depth: number, fn: () => R): R {
+  return getDepthStorage().run(depth, fn);
+}
+
+/**
+ * Checks whether a value is a promise or other thenable
+ */
+export function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return value !== null &&
+    (typeof value === 'object' || typeof value === 'function') &&
+    typeof (value as { then?: unknown }).then === 'function';
+}
+
+/**
+ * Marks an error as logged
+ * @returns false if it was already logged by an inner tracked method
+ */
+export function markErrorLogged(error: unknown): boolean {
+  if (error === null || (typeof error !== 'object' && typeof error !== 'function')) {
+    return true;
+  }
+  if (loggedErrors.has(error)) {
+    return false;
+  }
+  loggedErrors.add(error);
+  return true;
+}
+
+/**
+ * Checks whether code runs in a worker rather than the main thread
+ */
+export function isWorkerThread(): boolean {
+  return getRuntime().getExecutionContext().threadId !== 0;
+}
+
+/**
+ * Gets the name of the current thread, e.g. 'main' or 'worker-2'
+ */
+export function currentThreadName(): string {
+  return getRuntime().getExecutionContext().contextId;
+}
@@ -16,7 +16,46 @@ export type LogEntryType =
   | 'assert'
   | 'text'
   | 'object'
-  | 'binary';
+  | 'binary'
+  | 'graphic'
+  | 'source';
+
+/**
+ * Log levels in ascending order of severity, matching SmartInspect's Level enum.
+ * 'control' is reserved for control commands and is never filtered out.
+ */
+export type Level =
+  | 'debug'
+  | 'verbose'
+  | 'message'
+  | 'warning'
+  | 'error'
+  | 'fatal'
+  | 'control';
+
+/**
+ * Languages for logSource. The console highlights by language where it can
+ * and otherwise uses the closest source viewer.
+ */
+export type SourceLanguage =
+  | 'javascript'
+  | 'typescript'
+  | 'json'
+  | 'css'
+  | 'html'
+  | 'xml'
+  | 'graphql'
+  | 'yaml'
+  | 'markdown'
+  | 'shell'
+  | 'sql'
+  | 'python'
+  | 'ini';
+
+/**
+ * Transport encoding of log entry data
+ */
+export type DataEncoding = 'base64';
 
 /**
  * Viewer types for displaying log data
@@ -31,10 +70,15 @@ export type ViewerId =
   | 'web'
   | 'binary'
   | 'json'
+  | 'javascript'
   | 'xml'
   | 'html'
   | 'sql'
-  | 'python';
+  | 'python'
+  | 'ini'
+  | 'bitmap'
+  | 'jpeg'
+  | 'icon';
 
 /**
  * Watch value types
@@ -74,39 +118,115 @@ export type ControlCommandType =
  */
 export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
 
+/**
+ * A span of a distributed trace, as in a W3C traceparent header
+ */
+export interface TraceContext {
+  /** Trace ID shared by all spans of the trace, 32 hex digits */
+  traceId: string;
+  /** ID of this span, 16 hex digits */
+  spanId: string;
+  /** ID of the span this one was started in */
+  parentSpanId?: string;
+  /** Whether the trace is recorded, the sampled flag of traceparent */
+  sampled: boolean;
+}
+
+/**
+ * Client-side ordering information carried by log, watch and process flow messages
+ */
+export interface MessageStamp {
+  /** Client timestamp, ISO 8601 with microseconds */
+  timestamp?: string;
+  /** Monotonic sequence number, unique per page, worker or process */
+  sequence?: number;
+  /** Numeric thread ID: 0 for the main thread, otherwise the worker's ID */
+  threadId?: number;
+  /** Execution context, stable per thread, e.g. 'main' or 'worker-2' */
+  contextId?: string;
+  /** W3C trace ID of the current trace, if any */
+  traceId?: string;
+  /** Span the message was logged in */
+  spanId?: string;
+  /** Span the current span was started in */
+  parentSpanId?: string;
+}
+
+/**
+ * Value of a context property
+ */
+export type ContextValue = string | number | boolean | null;
+
+/**
+ * Key/value context attached to messages, e.g. userId, route or requestId
+ */
+export type ContextProperties = Record<string, ContextValue>;
+
 /**
  * Log entry message sent to console
  */
-export interface LogEntryMessage {
+export interface LogEntryMessage extends MessageStamp {
   type: 'logEntry';
   logEntryType: LogEntryType;
   session: string;
   appName?: string;
+  hostName?: string;
   title: string;
   data?: string;
+  /** Set to 'base64' when data holds binary data; otherwise data is text */
+  dataEncoding?: DataEncoding;
   viewerId?: ViewerId;
+  /** Language of source code entries, for highlighting */
+  language?: SourceLanguage;
   color?: string;
-  timestamp?: string;
-  threadId?: number;
+  /** Context properties from Session.withContext() and SmartInspect.pushContext() */
+  properties?: ContextProperties;
+}
+
+/**
+ * Options for logText
+ */
+export interface LogTextOptions {
+  /** Viewer for the text (default: 'data') */
+  viewerId?: ViewerId;
+  color?: string;
+  /** Prefix each line with its line number (default: false) */
+  lineNumbers?: boolean;
+  /** Number of the first line (default: 1) */
+  firstLine?: number;
 }
 
 /**
  * Watch message sent to console
  */
-export interface WatchMessage {
+export interface WatchMessage extends MessageStamp {
   type: 'watch';
+  session?: string;
+  appName?: string;
+  hostName?: string;
   name: string;
   value: string;
   watchType: WatchType;
+  /** Context properties from Session.withContext() and SmartInspect.pushContext() */
+  properties?: ContextProperties;
 }
 
 /**
  * Process flow message sent to console
  */
-export interface ProcessFlowMessage {
+export interface ProcessFlowMessage extends MessageStamp {
   type: 'processFlow';
+  session?: string;
+  appName?: string;
+  hostName?: string;
   flowType: ProcessFlowType;
   title: string;
+  /** Nesting depth of tracked methods, 1 = outermost */
+  depth?: number;
+  /** Milliseconds spent in the method (leaveMethod only) */
+  elapsed?: number;
+  /** Context properties from Session.withContext() and SmartInspect.pushContext() */
+  properties?: ContextProperties;
 }
 
 /**
@@ -122,10 +242,63 @@ export interface ControlCommandMessage {
  */
 export type Message = LogEntryMessage | WatchMessage | ProcessFlowMessage | ControlCommandMessage;
 
+/**
+ * Command sent from the console to change the log level.
+ * Applies to one session when `session` is set, otherwise globally.
+ */
+export interface SetLevelCommand {
+  type: 'setLevel';
+  level: Level;
+  session?: string;
+}
+
+/**
+ * Command sent from the console to turn a session on or off.
+ * Applies to all sessions when `session` is omitted.
+ */
+export interface SetSessionActiveCommand {
+  type: 'setSessionActive';
+  active: boolean;
+  session?: string;
+}
+
+/**
+ * Command sent from the console to request the current value of all watches
+ */
+export interface RequestWatchesCommand {
+  type: 'requestWatches';
+}
+
+/**
+ * Command sent from the console to clear everything
+ */
+export interface ClearAllCommand {
+  type: 'clearAll';
+}
+
+/**
+ * Any command received from the console
+ */
+export type InboundCommand =
+  | SetLevelCommand
+  | SetSessionActiveCommand
+  | RequestWatchesCommand
+  | ClearAllCommand;
+
 /**
  * Connection type for SmartInspect
  */
-export type ConnectionType = 'websocket' | 'http';
+export type ConnectionType = 'websocket' | 'http' | 'tcp' | 'file' | 'memory';
+
+/**
+ * Time-based log file rotation, matching SmartInspect's FileRotate
+ */
+export type FileRotate = 'none' | 'hourly' | 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Storage backend for the offline queue
+ */
+export type OfflineStorage = 'auto' | 'indexedDB' | 'localStorage' | 'file';
 
 /**
  * HTTP connection options (when connectionType is 'http')
@@ -155,28 +328,274 @@ export interface HttpOptions {
   includeMetadata?: boolean;
 }
 
+/**
+ * TCP connection options (when connectionType is 'tcp', Node only)
+ */
+export interface TcpOptions {
+  /** Host name reported to the console (default: the machine's host name) */
+  hostName?: string;
+  /** Handshake timeout in milliseconds (default: 30000) */
+  timeout?: number;
+}
+
+/**
+ * Log file options (when connectionType is 'file' or 'memory')
+ */
+export interface FileOptions {
+  /** Start a new file when the current one reaches this many bytes, 0 = no limit */
+  maxSize?: number;
+  /** Start a new file every hour, day, week or month (default: 'none') */
+  rotate?: FileRotate;
+  /** Number of rotated files to keep, 0 = unlimited */
+  maxParts?: number;
+}
+
+/**
+ * Persistent offline queue options (WebSocket, HTTP and TCP)
+ */
+export interface OfflineQueueOptions {
+  /** Queue name, keeps apps sharing an origin or directory apart (default: the app name) */
+  name?: string;
+  /** Maximum queue size in bytes; the oldest entries are dropped first (default: 1 MB) */
+  maxBytes?: number;
+  /** Entries older than this many milliseconds are discarded, 0 = keep forever (default: 24 hours) */
+  ttl?: number;
+  /** 'auto' (default) uses IndexedDB or localStorage in browsers and a file in Node */
+  storage?: OfflineStorage;
+  /** Queue file path for 'file' storage (default: a file in the temp directory) */
+  path?: string;
+}
+
+/**
+ * A parsed stack frame
+ */
+export interface StackFrame {
+  /** Function name, if the stack shows one */
+  functionName?: string;
+  /** Script URL or file path */
+  fileName?: string;
+  /** 1-based line number */
+  lineNumber?: number;
+  /** 1-based column number */
+  columnNumber?: number;
+  /** Position in the generated (minified) file, set when the frame was resolved through a source map */
+  generated?: { fileName: string; lineNumber: number; columnNumber: number };
+}
+
+/**
+ * An error converted to plain JSON by logException
+ */
+export interface SerializedError {
+  /** Error name, or the type of a thrown non-error value */
+  name: string;
+  message: string;
+  /** DOMException code or Node system error code */
+  code?: number | string;
+  /** Stack as reported by the runtime, rewritten when frames were resolved through source maps */
+  stack?: string;
+  /** Parsed stack frames */
+  frames: StackFrame[];
+  /** Other enumerable properties of the error */
+  properties?: Record<string, unknown>;
+  /** The error's cause */
+  cause?: SerializedError;
+  /** Child errors of an AggregateError */
+  errors?: SerializedError[];
+}
+
+/**
+ * Options for serializeError()
+ */
+export interface SerializeErrorOptions {
+  /**
+   * Converts custom properties and thrown non-error values to JSON; depth is
+   * the number of causes and aggregate levels above the value
+   * (default: Serializer.toJson with the default limits)
+   */
+  convert?: (value: unknown, depth: number) => unknown;
+  /** Nesting limit for cause chains and aggregate children (default: 10) */
+  maxDepth?: number;
+  /** Objects the error is nested in; errors among them are not serialized again */
+  ancestors?: readonly object[];
+}
+
+/**
+ * A source map (version 3) as parsed from JSON
+ */
+export interface RawSourceMap {
+  version: number;
+  sources: string[];
+  names?: string[];
+  mappings: string;
+  sourceRoot?: string;
+  file?: string;
+}
+
+/**
+ * Source map options for resolving minified stack frames
+ */
+export interface SourceMapOptions {
+  /** Source maps by script URL: the URL of the map (data: URLs work too) or the parsed map */
+  maps?: Record<string, string | RawSourceMap>;
+  /** Look up the sourceMappingURL comment of scripts not listed in maps (default: true) */
+  discover?: boolean;
+}
+
+/**
+ * Formats instances of a class for logging; the result is serialized in place of the instance
+ */
+export type ValueFormatter = (value: unknown) => unknown;
+
+/**
+ * Limits for serializing logged objects
+ */
+export interface SerializerOptions {
+  /** Nesting depth after which objects are shown as '[ClassName]' (default: 8) */
+  maxDepth?: number;
+  /** Maximum array items, object properties and collection entries per object (default: 100) */
+  maxItems?: number;
+  /** Strings inside objects are cut off after this many characters (default: 10000) */
+  maxStringLength?: number;
+  /** Maximum rows logged by logTable (default: 1000) */
+  maxRows?: number;
+  /** JSON indentation in spaces (default: 2) */
+  indent?: number;
+}
+
+/**
+ * A text pattern to redact
+ */
+export interface RedactionPattern {
+  /** Regular expression, or its source as a string (e.g. from a configuration file); always applied globally */
+  pattern: RegExp | string;
+  /** Only matches passing this check are redacted, e.g. a checksum */
+  test?: (match: string) => boolean;
+  /** Text that replaces matches (default: the redactor's replacement) */
+  replacement?: string;
+}
+
+/**
+ * Custom redaction step, run on each message after the rules; returns the message to send
+ */
+export type RedactionFunction = (message: Message) => Message;
+
+/**
+ * Rules for redacting sensitive data before messages are sent
+ */
+export interface RedactionOptions {
+  /** Turn redaction on or off (default: true once options are given) */
+  enabled?: boolean;
+  /**
+   * Property, header, watch and query parameter names whose values are redacted.
+   * Strings match any name containing them, case-insensitive (default: DEFAULT_REDACTED_KEYS)
+   */
+  keys?: Array<string | RegExp>;
+  /** Patterns redacted in all text (default: DEFAULT_REDACTION_PATTERNS: emails, card numbers and JWTs) */
+  patterns?: RedactionPattern[];
+  /** Custom steps run after the rules */
+  custom?: RedactionFunction[];
+  /** Text that replaces redacted values (default: '[redacted]') */
+  replacement?: string;
+}
+
+/**
+ * Limits on how many messages a session sends, for code that logs in tight loops
+ */
+export interface ThrottleOptions {
+  /** Turn throttling on or off (default: true once options are given) */
+  enabled?: boolean;
+  /** Messages per second a session may send; 0 for no limit (default: 0) */
+  rate?: number;
+  /** Messages a session may send at once before the rate applies (default: rate) */
+  burst?: number;
+  /** Fraction of messages sent per level, from 0 to 1, e.g. { debug: 0.1 } (default: all) */
+  sampling?: Partial<Record<Level, number>>;
+  /** Collapse identical consecutive log entries into one 'repeated N times' entry (default: false) */
+  dedupe?: boolean;
+  /** Send at most one value per watch every this many milliseconds, outside the rate limit; 0 to send all (default: 0) */
+  watchInterval?: number;
+  /** How often dropped messages are reported and repeats summarized, in milliseconds (default: 10000) */
+  reportInterval?: number;
+}
+
 /**
  * Configuration options for SmartInspect
  */
 export interface SmartInspectOptions {
   /** Application name shown in console */
   appName?: string;
-  /** Connection type: 'websocket' (default) or 'http' */
+  /** Host name or instance label sent with every message (default: machine host name in Node, page host in browsers) */
+  hostName?: string;
+  /** Minimum level for entries to be sent (default: 'debug') */
+  level?: Level;
+  /** Level used by methods without an inherent level, e.g. logObject (default: 'message') */
+  defaultLevel?: Level;
+  /** Connection type: 'websocket' (default), 'http', 'tcp' (Node only), 'file' (Node only) or 'memory' */
   connectionType?: ConnectionType;
   /** HTTP connection options (when connectionType is 'http') */
   httpOptions?: HttpOptions;
+  /** TCP connection options (when connectionType is 'tcp') */
+  tcpOptions?: TcpOptions;
+  /** Log file options (when connectionType is 'file' or 'memory') */
+  fileOptions?: FileOptions;
   /** Auto-connect on creation */
   autoConnect?: boolean;
-  /** Reconnect automatically on disconnect (WebSocket only) */
+  /** Reconnect automatically on disconnect (WebSocket and TCP) */
   autoReconnect?: boolean;
-  /** Reconnect delay in milliseconds (WebSocket only) */
+  /** Reconnect delay in milliseconds (WebSocket and TCP) */
   reconnectDelay?: number;
-  /** Maximum reconnect attempts, 0 = unlimited (WebSocket only) */
+  /** Maximum reconnect attempts, 0 = unlimited (WebSocket and TCP) */
   maxReconnectAttempts?: number;
-  /** Enable buffering when disconnected (WebSocket only) */
+  /** Enable buffering when disconnected (WebSocket and TCP) */
   bufferWhenDisconnected?: boolean;
-  /** Maximum buffer size (WebSocket only) */
+  /** Maximum buffer size (WebSocket and TCP) */
   maxBufferSize?: number;
+  /** Persist messages that could not be sent and replay them on the next connect (WebSocket, HTTP and TCP) */
+  offlineQueue?: OfflineQueueOptions;
+  /** Limits for serializing logged objects and watches */
+  serializer?: SerializerOptions;
+  /** Resolve minified stack frames in logged exceptions through source maps */
+  sourceMaps?: SourceMapOptions;
+  /** Redact sensitive data in titles, data, watches and HTTP metadata before sending */
+  redaction?: RedactionOptions;
+  /** Rate limits, sampling and duplicate suppression for every session */
+  throttle?: ThrottleOptions;
+  /** Start a trace for the page, worker or process: true for a new trace ID, or a traceparent header to continue */
+  trace?: boolean | string;
+  /** Log enterThread on connect and leaveThread on disconnect (default: true in workers and worker_threads) */
+  threadFlow?: boolean;
+}
+
+/**
+ * Per-session settings applied through configuration
+ */
+export interface SessionConfiguration {
+  /** Whether the session is active */
+  active?: boolean;
+  /** Minimum log level override for the session */
+  level?: Level;
+  /** Default color for log entries */
+  color?: string;
+  /** Redaction rules replacing the global ones for this session */
+  redaction?: RedactionOptions;
+  /** Throttling replacing the global options for this session */
+  throttle?: ThrottleOptions;
+}
+
+/**
+ * Runtime configuration for SmartInspect, as accepted by loadConfiguration()
+ */
+export interface SmartInspectConfiguration extends SmartInspectOptions {
+  /** Enable or disable logging */
+  enabled?: boolean;
+  /** Connection URL (WebSocket URL or HTTP relay endpoint) */
+  url?: string;
+  /** SmartInspect-style connection string, e.g. 'ws(host=localhost,port=4229)' */
+  connections?: string;
+  /** Settings applied to every session */
+  sessionDefaults?: SessionConfiguration;
+  /** Settings for individual sessions, keyed by session name */
+  sessions?: Record<string, SessionConfiguration>;
 }
 
 /**
@@ -187,4 +606,12 @@ export interface SmartInspectEvents {
   onDisconnected?: () => void;
   onError?: (error: Error) => void;
   onStateChange?: (state: ConnectionState) => void;
+  /** Raised after the console changed the log level */
+  onLevelChange?: (level: Level, session?: string) => void;
+  /** Raised after the console turned a session (or all sessions) on or off */
+  onSessionActiveChange?: (active: boolean, session?: string) => void;
+  /** Raised after the console requested a snapshot of all watches */
+  onWatchesRequested?: () => void;
+  /** Raised after the console requested clearAll */
+  onClearAll?: () => void;
 }
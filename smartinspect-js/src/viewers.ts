@@ -0,0 +1,155 @@
+import type { ViewerId } from './types';
+
+/**
+ * Builds data for the console's list viewer: one item per line.
+ * Matches the ListViewerContext of the SmartInspect .NET library.
+ */
+export class ListViewerContext {
+  private data: string = '';
+
+  /**
+   * Gets the viewer the data is meant for
+   */
+  get viewerId(): ViewerId {
+    return 'list';
+  }
+
+  /**
+   * Append a line; line breaks are replaced by spaces
+   */
+  appendLine(line: string): void {
+    this.data += `${this.escapeLine(line)}\r\n`;
+  }
+
+  /**
+   * Gets the viewer data
+   */
+  toString(): string {
+    return this.data;
+  }
+
+  /**
+   * Append text to the current line; line breaks are replaced by spaces
+   */
+  protected appendText(text: string): void {
+    this.data += this.escapeLine(text);
+  }
+
+  /**
+   * Replaces line breaks with a single space and escapes the given characters with a backslash
+   */
+  protected escapeLine(line: string, toEscape: string = ''): string {
+    let result = '';
+    let previous = ' ';
+
+    for (const char of line) {
+      if (char === '\r' || char === '\n') {
+        if (previous !== '\r' && previous !== '\n') {
+          result += ' ';
+        }
+      } else if (toEscape.includes(char)) {
+        result += `\\${char}`;
+      } else {
+        result += char;
+      }
+      previous = char;
+    }
+    return result;
+  }
+}
+
+/**
+ * Builds data for the console's value list viewer: one 'key=value' pair per line
+ */
+export class ValueListViewerContext extends ListViewerContext {
+  get viewerId(): ViewerId {
+    return 'valueList';
+  }
+
+  /**
+   * Append a key/value pair
+   */
+  appendKeyValue(key: string, value: string): void {
+    this.appendLine(`${this.escapeItem(key)}=${this.escapeItem(value)}`);
+  }
+
+  /**
+   * Escapes a key or value; the value list separates keys from values with '='
+   */
+  protected escapeItem(item: string): string {
+    return this.escapeLine(item, '\\=');
+  }
+}
+
+/**
+ * Builds data for the console's object inspector: key/value pairs in '[Group]' sections
+ */
+export class InspectorViewerContext extends ValueListViewerContext {
+  get viewerId(): ViewerId {
+    return 'inspector';
+  }
+
+  /**
+   * Start a new group; the following pairs are shown under it
+   */
+  startGroup(group: string): void {
+    this.appendLine(`[${this.escapeItem(group)}]`);
+  }
+
+  protected escapeItem(item: string): string {
+    return this.escapeLine(item, '\\=[]');
+  }
+}
+
+/**
+ * Builds data for the console's table viewer: a header line with the column
+ * names, an empty line, then one line of quoted, comma-separated entries per row
+ */
+export class TableViewerContext extends ListViewerContext {
+  private lineStart: boolean = true;
+
+  get viewerId(): ViewerId {
+    return 'table';
+  }
+
+  /**
+   * Append the header with the column names
+   */
+  appendHeader(columns: string[]): void {
+    this.appendLine(columns.map(column => this.escapeCsvEntry(column)).join(', '));
+    this.appendLine('');
+  }
+
+  /**
+   * Start a new row
+   */
+  beginRow(): void {
+    this.lineStart = true;
+  }
+
+  /**
+   * Add an entry to the current row
+   */
+  addRowEntry(entry: string): void {
+    if (this.lineStart) {
+      this.lineStart = false;
+    } else {
+      this.appendText(', ');
+    }
+    this.appendText(this.escapeCsvEntry(entry));
+  }
+
+  /**
+   * End the current row
+   */
+  endRow(): void {
+    this.appendLine('');
+  }
+
+  /**
+   * Quotes an entry and doubles the quotes inside it
+   */
+  private escapeCsvEntry(entry: string): string {
+    return `"${entry.replace(/"/g, '""')}"`;
+  }
+}
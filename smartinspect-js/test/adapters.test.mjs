@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPinoDestination, createWinstonTransport } from '../dist/smartinspect.node.mjs';
+import { createCapture } from './helpers.mjs';
+
+class TransportStream {
+  constructor(options) {
+    this.options = options;
+  }
+}
+
+test('pino levels map to entry types', () => {
+  const { si, entries } = createCapture();
+  const destination = createPinoDestination(si);
+  for (const level of [10, 20, 30, 40, 50, 60]) {
+    destination.write(JSON.stringify({ level, msg: `level ${level}` }) + '\n');
+  }
+  assert.deepEqual(
+    entries().map(entry => entry.logEntryType),
+    ['debug', 'debug', 'message', 'warning', 'error', 'fatal']
+  );
+});
+
+test('pino level names use the same table as numeric levels', () => {
+  const { si, entries } = createCapture();
+  const destination = createPinoDestination(si);
+  destination.write({ level: 'trace', msg: 'by name' });
+  destination.write({ level: 10, msg: 'by number' });
+  assert.deepEqual(entries().map(entry => entry.logEntryType), ['debug', 'debug']);
+});
+
+test('trace and silly records are dropped with the debug records', () => {
+  const { si, entries } = createCapture({ level: 'verbose' });
+  const destination = createPinoDestination(si);
+  destination.write({ level: 10, msg: 'trace' });
+  destination.write({ level: 20, msg: 'debug' });
+  const transport = createWinstonTransport(TransportStream, si);
+  transport.log({ level: 'silly', message: 'silly' }, () => {});
+  transport.log({ level: 'verbose', message: 'verbose' }, () => {});
+  assert.deepEqual(entries().map(entry => entry.title), ['verbose']);
+});
+
+test('pino fields become JSON data and the logger name the session', () => {
+  const { si, entries } = createCapture();
+  createPinoDestination(si).write({ level: 30, time: 1, name: 'db', msg: 'query', rows: 3 });
+  const [entry] = entries();
+  assert.equal(entry.session, 'db');
+  assert.equal(entry.title, 'query');
+  assert.deepEqual(JSON.parse(entry.data), { rows: 3 });
+});
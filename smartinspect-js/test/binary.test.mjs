@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BinaryPacketWriter } from '../dist/smartinspect.node.mjs';
+
+/**
+ * Reads the packet header and a cursor over the payload
+ */
+function readPacket(packet) {
+  const view = new DataView(packet.buffer, packet.byteOffset, packet.byteLength);
+  let position = 6;
+  const decoder = new TextDecoder();
+  return {
+    type: view.getInt16(0, true),
+    size: view.getInt32(2, true),
+    int() {
+      const value = view.getInt32(position, true);
+      position += 4;
+      return value;
+    },
+    double() {
+      const value = view.getFloat64(position, true);
+      position += 8;
+      return value;
+    },
+    text(length) {
+      const value = decoder.decode(packet.subarray(position, position + length));
+      position += length;
+      return value;
+    },
+    get remaining() {
+      return packet.length - position;
+    }
+  };
+}
+
+test('writes log entries in the console packet layout', () => {
+  const writer = new BinaryPacketWriter();
+  writer.hostName = 'host';
+  writer.processId = 42;
+  const timestamp = '2026-01-01T00:00:00.000Z';
+  const packet = writer.writePacket({
+    type: 'logEntry',
+    logEntryType: 'warning',
+    viewerId: 'json',
+    session: 'Main',
+    appName: 'App',
+    title: 'Grüße',
+    data: '{}',
+    threadId: 7,
+    color: '#FF0000',
+    timestamp
+  });
+
+  const reader = readPacket(packet);
+  assert.equal(reader.type, 4);
+  assert.equal(reader.size, packet.length - 6);
+  assert.equal(reader.int(), 101);
+  assert.equal(reader.int(), 301);
+  const lengths = [reader.int(), reader.int(), reader.int(), reader.int(), reader.int()];
+  assert.deepEqual(lengths, [3, 4, 7, 4, 2]);
+  assert.equal(reader.int(), 42);
+  assert.equal(reader.int(), 7);
+
+  // OLE Automation date in local time
+  const date = new Date(timestamp);
+  const local = date.getTime() - date.getTimezoneOffset() * 60000;
+  assert.equal(reader.double(), local / 86400000 + 25569);
+  assert.equal(reader.int() >>> 0, 0xFF0000FF);
+
+  assert.deepEqual([reader.text(3), reader.text(4), reader.text(7), reader.text(4), reader.text(2)], ['App', 'Main', 'Grüße', 'host', '{}']);
+  assert.equal(reader.remaining, 0);
+});
+
+test('writes base64 data as the decoded bytes', () => {
+  const packet = new BinaryPacketWriter().writePacket({
+    type: 'logEntry',
+    logEntryType: 'binary',
+    session: 'Main',
+    title: '',
+    data: 'AAEC/w==',
+    dataEncoding: 'base64'
+  });
+  assert.deepEqual([...packet.subarray(packet.length - 4)], [0, 1, 2, 255]);
+});
+
+test('writes watches and control commands', () => {
+  const writer = new BinaryPacketWriter();
+  const watch = readPacket(writer.writePacket({ type: 'watch', session: 'Main', name: 'count', value: '3', watchType: 'integer' }));
+  assert.equal(watch.type, 5);
+  assert.deepEqual([watch.int(), watch.int(), watch.int()], [5, 1, 2]);
+
+  const control = readPacket(writer.writePacket({ type: 'control', command: 'clearAll' }));
+  assert.equal(control.type, 1);
+  assert.equal(control.size, 8);
+  assert.equal(control.int(), 3);
+});
+
+test('writes the log header with host and application name', () => {
+  const writer = new BinaryPacketWriter();
+  writer.hostName = 'host';
+  const header = readPacket(writer.writeLogHeader('App'));
+  assert.equal(header.type, 7);
+  const length = header.int();
+  assert.equal(header.text(length), 'hostname=host\r\nappname=App\r\n');
+});
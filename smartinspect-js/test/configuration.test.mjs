@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SmartInspect, parseConnectionString, parseLevel } from '../dist/smartinspect.node.mjs';
+
+test('parses a TCP connection string', () => {
+  const config = parseConnectionString('tcp(host=logs.local, port=5000, timeout=2000)');
+  assert.equal(config.connectionType, 'tcp');
+  assert.equal(config.url, 'tcp://logs.local:5000');
+  assert.equal(config.tcpOptions.timeout, 2000);
+});
+
+test('treats empty numeric options as absent', () => {
+  const config = parseConnectionString('tcp(host=logs.local, timeout=)');
+  assert.equal(config.tcpOptions.timeout, undefined);
+});
+
+test('parses levels case-insensitively', () => {
+  assert.equal(parseLevel('Warning'), 'warning');
+  assert.equal(parseLevel('loud'), undefined);
+});
+
+test('rejects an unknown connection type before applying anything', async () => {
+  const si = new SmartInspect('App', { connectionType: 'memory' });
+  await assert.rejects(
+    si.loadConfiguration({ connectionType: 'tpc', appName: 'Changed' }),
+    /Invalid connection type: tpc/
+  );
+  assert.equal(si.appName, 'App');
+  assert.equal(si.connectionType, 'memory');
+});
+
+test('uses the default URL of a new connection type', async () => {
+  const si = new SmartInspect('App', { connectionType: 'websocket' });
+  await si.loadConfiguration({ connectionType: 'http', url: 'https://logs.example.com/api/v1' });
+  await si.loadConfiguration({ connectionType: 'tcp' });
+
+  const urls = [];
+  si.connection.connect = async url => {
+    urls.push(url);
+  };
+  await si.connect();
+  assert.deepEqual(urls, ['tcp://localhost:4228']);
+});
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:net';
+import { HttpConnection, TcpConnection, parseConnectionString } from '../dist/smartinspect.node.mjs';
+
+/**
+ * Replaces the global fetch for a test, recording the requests
+ */
+function stubFetch(t) {
+  const requests = [];
+  const original = globalThis.fetch;
+  globalThis.fetch = async (url, init) => {
+    requests.push({ url, init });
+    return new Response('{}', { status: 200 });
+  };
+  t.after(() => {
+    globalThis.fetch = original;
+  });
+  return requests;
+}
+
+test('the final HTTP flush sends the API key', async t => {
+  const requests = stubFetch(t);
+  const connection = new HttpConnection({ apiKey: 'secret', flushInterval: 60000 });
+  await connection.connect('https://logs.example.com/api/v1');
+  connection.send({ type: 'logEntry', logEntryType: 'message', session: 'Main', title: 'last' });
+  connection.disconnect();
+
+  const flush = requests.find(request => request.url === 'https://logs.example.com/api/v1/logs');
+  assert.ok(flush);
+  assert.equal(flush.init.headers['X-Api-Key'], 'secret');
+  assert.match(flush.init.body, /"last"/);
+});
+
+test('TCP connections reach IPv6 hosts', async t => {
+  const server = createServer(socket => socket.write('SmartInspect Console v3.3\n'));
+  await new Promise((resolve, reject) => server.once('error', reject).listen(0, '::1', resolve));
+  t.after(() => server.close());
+
+  const connection = new TcpConnection();
+  await connection.connect(`tcp://[::1]:${server.address().port}`);
+  assert.equal(connection.connectionState, 'connected');
+  connection.disconnect();
+});
+
+test('connection strings put IPv6 hosts in brackets', () => {
+  assert.equal(parseConnectionString('tcp(host=::1, port=4300)').url, 'tcp://[::1]:4300');
+  assert.equal(parseConnectionString('ws(host=fe80::1)').url, 'ws://[fe80::1]:4229');
+});
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Serializer, serializeError } from '../dist/smartinspect.node.mjs';
+import { createCapture } from './helpers.mjs';
+
+test('serializes the cause chain and aggregate children', () => {
+  const error = new AggregateError([new TypeError('child')], 'parent', { cause: new Error('root') });
+  const serialized = serializeError(error);
+  assert.equal(serialized.name, 'AggregateError');
+  assert.equal(serialized.cause.message, 'root');
+  assert.equal(serialized.errors[0].name, 'TypeError');
+  assert.ok(serialized.frames.length > 0);
+});
+
+test('converts custom properties with the serializer', () => {
+  const error = new Error('failed');
+  const request = { url: '/api' };
+  request.self = request;
+  error.request = request;
+  error.payload = 'x'.repeat(50);
+
+  const serializer = new Serializer({ maxStringLength: 10 });
+  const { properties } = serializeError(error, { convert: value => serializer.toJson(value) });
+  assert.deepEqual(properties.request, { url: '/api', self: '[Circular]' });
+  assert.match(properties.payload, /^x{10}… \(40 more characters\)$/);
+});
+
+test('logs the failure of throwing getters', () => {
+  const error = new Error('failed');
+  Object.defineProperty(error, 'cause', { get() { throw new Error('no cause'); } });
+  Object.defineProperty(error, 'detail', { enumerable: true, get() { throw new Error('no detail'); } });
+
+  const serialized = serializeError(error);
+  assert.equal(serialized.cause.message, '[Getter failed: no cause]');
+  assert.equal(serialized.properties.detail, '[Getter failed: no detail]');
+});
+
+test('logException survives errors behind throwing proxies', () => {
+  const { si, entries } = createCapture();
+  const trap = () => {
+    throw new Error('trap');
+  };
+  const error = new Proxy(new Error('hidden'), { get: trap, ownKeys: trap, getPrototypeOf: trap });
+
+  si.mainSession.logException('Proxy', error);
+  assert.equal(entries().length, 1);
+  assert.equal(JSON.parse(entries()[0].data).name, 'Object');
+});
+
+test('the serializer applies its depth limit to cause chains', () => {
+  let error = new Error('level 0');
+  for (let i = 1; i <= 20; i++) {
+    error = new Error(`level ${i}`, { cause: error });
+  }
+  const json = new Serializer({ maxDepth: 3 }).toJson({ error });
+  assert.equal(json.error.message, 'level 20');
+  assert.equal(json.error.cause.message, 'level 19');
+  assert.equal(json.error.cause.cause, undefined);
+});
+
+test('the serializer detects cycles through errors', () => {
+  const outer = new Error('outer');
+  const inner = new Error('inner', { cause: outer });
+  outer.inner = inner;
+  outer.owner = { outer };
+
+  const json = new Serializer().toJson(outer);
+  assert.equal(json.properties.inner.message, 'inner');
+  assert.equal(json.properties.inner.cause, undefined);
+  assert.deepEqual(json.properties.owner, { outer: '[Circular]' });
+});
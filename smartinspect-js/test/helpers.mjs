@@ -0,0 +1,14 @@
+import { SmartInspect } from '../dist/smartinspect.node.mjs';
+
+/**
+ * Creates a SmartInspect instance on a memory connection that collects the
+ * messages it sends
+ */
+export function createCapture(options = {}) {
+  const si = new SmartInspect('Test', { connectionType: 'memory', level: 'debug', ...options });
+  const sent = [];
+  si.connection.send = message => {
+    sent.push(message);
+  };
+  return { si, sent, entries: () => sent.filter(message => message.type === 'logEntry') };
+}
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCapture } from './helpers.mjs';
+
+/**
+ * A minimal XMLHttpRequest that answers every request with the given text
+ */
+function installXhr(t, responseText, responseHeaders = '') {
+  const original = globalThis.XMLHttpRequest;
+  class FakeXhr {
+    constructor() {
+      this.listeners = {};
+      this.responseType = '';
+      this.status = 0;
+      this.statusText = '';
+      this.responseText = '';
+      this.requestHeaders = [];
+    }
+    open(method, url) {
+      this.method = method;
+      this.url = url;
+    }
+    setRequestHeader(name, value) {
+      this.requestHeaders.push([name, value]);
+    }
+    addEventListener(type, listener) {
+      (this.listeners[type] ??= []).push(listener);
+    }
+    getAllResponseHeaders() {
+      return responseHeaders;
+    }
+    send() {
+      this.status = 200;
+      this.statusText = 'OK';
+      this.responseText = responseText;
+      for (const listener of this.listeners.loadend ?? []) listener();
+    }
+  }
+  globalThis.XMLHttpRequest = FakeXhr;
+  t.after(() => {
+    globalThis.XMLHttpRequest = original;
+  });
+  return FakeXhr;
+}
+
+/**
+ * Sends a request through the instrumented XMLHttpRequest
+ */
+function request(Xhr, url, body) {
+  const xhr = new Xhr();
+  xhr.open('POST', url);
+  xhr.send(body);
+  return xhr;
+}
+
+test('XMLHttpRequest response sizes are counted in bytes', t => {
+  const Xhr = installXhr(t, '€€€€', 'content-type: text/plain\r\n');
+  const { si, entries } = createCapture();
+  const release = si.instrumentXhr();
+  t.after(release);
+
+  request(Xhr, 'https://api.example.com/items', 'ü');
+  const [entry] = entries();
+  assert.match(entry.title, /POST .*items/);
+  const sizes = [...entry.data.matchAll(/Size=(.*)/g)].map(match => match[1].trim());
+  assert.deepEqual(sizes, ['2 B', '12 B']);
+});
+
+test('denied URLs are not logged', t => {
+  const Xhr = installXhr(t, 'ok');
+  const { si, entries } = createCapture();
+  const release = si.instrumentXhr({ deny: ['/health'] });
+  t.after(release);
+
+  request(Xhr, 'https://api.example.com/health');
+  assert.equal(entries().length, 0);
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Redactor } from '../dist/smartinspect.node.mjs';
+
+const entry = fields => ({ type: 'logEntry', logEntryType: 'message', session: 'Main', title: '', ...fields });
+
+test('is turned off until options are given', () => {
+  const message = entry({ title: 'password=hunter2' });
+  assert.equal(new Redactor().redact(message), message);
+});
+
+test('redacts values of sensitive names in JSON data and keeps its indentation', () => {
+  const redactor = new Redactor({});
+  const data = JSON.stringify({ user: 'ann', password: 'hunter2', nested: [{ apiToken: 'abc' }] }, null, 2);
+  const redacted = redactor.redact(entry({ data, viewerId: 'json' }));
+  assert.equal(redacted.data, JSON.stringify({ user: 'ann', password: '[redacted]', nested: [{ apiToken: '[redacted]' }] }, null, 2));
+});
+
+test('redacts name=value pairs and patterns in text', () => {
+  const redactor = new Redactor({});
+  assert.equal(
+    redactor.redactText('GET /login?user=ann&password=hunter2 from ann@example.com'),
+    'GET /login?user=ann&password=[redacted] from [redacted]'
+  );
+});
+
+test('only redacts card numbers that pass the Luhn check', () => {
+  const redactor = new Redactor({});
+  assert.equal(redactor.redactText('card 4111 1111 1111 1111'), 'card [redacted]');
+  assert.equal(redactor.redactText('order 4111 1111 1111 1112'), 'order 4111 1111 1111 1112');
+});
+
+test('redacts watches with sensitive names and context properties', () => {
+  const redactor = new Redactor({ replacement: '***' });
+  const watch = redactor.redact({ type: 'watch', session: 'Main', name: 'sessionToken', value: 'abc', watchType: 'string' });
+  assert.equal(watch.value, '***');
+
+  const logged = redactor.redact(entry({ properties: { userId: 7, cookie: 'sid=1' } }));
+  assert.deepEqual(logged.properties, { userId: 7, cookie: '***' });
+});
+
+test('leaves binary data alone and runs custom steps last', () => {
+  const redactor = new Redactor({ custom: [message => ({ ...message, title: message.title.toUpperCase() })] });
+  const redacted = redactor.redact(entry({ title: 'token=abc', data: 'cGFzc3dvcmQ9eA==', dataEncoding: 'base64' }));
+  assert.equal(redacted.title, 'TOKEN=[REDACTED]');
+  assert.equal(redacted.data, 'cGFzc3dvcmQ9eA==');
+});
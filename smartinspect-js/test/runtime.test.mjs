@@ -0,0 +1,10 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { hostname } from 'node:os';
+import { NodeRuntime, SiAuto, SmartInspect, getRuntime } from '../dist/smartinspect.node.mjs';
+
+test('the Node entry point sets the Node runtime before SiAuto.si is created', () => {
+  assert.ok(getRuntime() instanceof NodeRuntime);
+  assert.equal(SiAuto.si.hostName, hostname());
+  assert.equal(SiAuto.si.hostName, new SmartInspect('App').hostName);
+});
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Serializer } from '../dist/smartinspect.node.mjs';
+
+test('keeps the type and content of collections', () => {
+  const json = new Serializer().toJson({
+    map: new Map([['a', 1]]),
+    set: new Set([1, 2]),
+    big: 10n,
+    date: new Date(0),
+    bytes: new Uint8Array([1, 2])
+  });
+  assert.deepEqual(json, {
+    map: { '@type': 'Map(1)', entries: { a: 1 } },
+    set: { '@type': 'Set(2)', values: [1, 2] },
+    big: '10n',
+    date: '1970-01-01T00:00:00.000Z',
+    bytes: { '@type': 'Uint8Array(2)', values: [1, 2] }
+  });
+});
+
+test('cuts off cycles, depth, items and long strings', () => {
+  const serializer = new Serializer({ maxDepth: 2, maxItems: 2, maxStringLength: 3 });
+  const node = { name: 'abcdef', child: { child: { child: {} } } };
+  node.self = node;
+  assert.deepEqual(serializer.toJson(node), {
+    name: 'abc… (3 more characters)',
+    child: { child: '[Object]' },
+    '…': '1 more'
+  });
+  assert.deepEqual(serializer.toJson(new Set([1, 2, 3, 4])), { '@type': 'Set(4)', values: [1, 2, '… 2 more'] });
+  assert.equal(new Serializer().toJson(node).self, '[Circular]');
+});
+
+test('never throws on hostile objects', () => {
+  const trap = () => {
+    throw new Error('trap');
+  };
+  const serializer = new Serializer();
+  const json = serializer.toJson({
+    proxy: new Proxy({}, { ownKeys: trap, getPrototypeOf: trap, get: trap }),
+    getter: Object.defineProperty({}, 'value', { enumerable: true, get: trap }),
+    toJSON: undefined
+  });
+  assert.match(json.proxy, /serialization failed: trap/);
+  assert.deepEqual(json.getter, { value: '[Getter failed: trap]' });
+});
+
+test('uses registered formatters for subclasses', () => {
+  class Money {
+    constructor(amount) {
+      this.amount = amount;
+    }
+  }
+  class Euro extends Money {}
+  const serializer = new Serializer();
+  serializer.register(Money, money => `${money.amount} EUR`);
+  assert.equal(serializer.toJson(new Euro(5)), '5 EUR');
+});
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCapture } from './helpers.mjs';
+
+test('logText numbers lines from the given first line', () => {
+  const { si, entries } = createCapture();
+  si.mainSession.logText('Query', 'select *\nfrom items\n', { lineNumbers: true, firstLine: 9 });
+  assert.equal(entries()[0].data, ' 9 | select *\n10 | from items\n');
+});
+
+test('logText skips formatting when the session is off', () => {
+  const { si, entries } = createCapture({ level: 'error' });
+  const text = {
+    split() {
+      throw new Error('formatted although the session is off');
+    }
+  };
+  si.mainSession.logText('Query', text, { lineNumbers: true });
+  assert.equal(entries().length, 0);
+});
+
+test('sessions drop entries below their level', () => {
+  const { si, entries } = createCapture({ level: 'warning' });
+  si.mainSession.logDebug('hidden');
+  si.mainSession.logWarning('shown');
+  assert.deepEqual(entries().map(entry => entry.title), ['shown']);
+});
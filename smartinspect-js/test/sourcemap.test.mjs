@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SourceMap, parseStack } from '../dist/smartinspect.node.mjs';
+
+const map = new SourceMap({
+  version: 3,
+  sources: ['app.ts', 'util.ts'],
+  sourceRoot: 'src',
+  // Line 1: column 0 -> app.ts 1:1, column 5 unmapped, column 10 -> app.ts 1:6
+  // Line 2: column 0 -> util.ts 3:1
+  mappings: 'AAAA,K,KAAK;ACEL'
+}, 'https://example.com/assets/app.js.map');
+
+test('finds the original position of mapped columns', () => {
+  assert.deepEqual(map.originalPositionFor(1, 3), { source: 'https://example.com/assets/src/app.ts', line: 1, column: 1 });
+  assert.deepEqual(map.originalPositionFor(1, 20), { source: 'https://example.com/assets/src/app.ts', line: 1, column: 6 });
+  assert.deepEqual(map.originalPositionFor(2, 1), { source: 'https://example.com/assets/src/util.ts', line: 3, column: 1 });
+});
+
+test('columns after a one-field segment are unmapped', () => {
+  assert.equal(map.originalPositionFor(1, 6), null);
+  assert.equal(map.originalPositionFor(1, 10), null);
+});
+
+test('lines without mappings are unmapped', () => {
+  assert.equal(map.originalPositionFor(3, 1), null);
+});
+
+test('rejects maps other than version 3', () => {
+  assert.throws(() => new SourceMap({ version: 2, sources: [], mappings: '' }), /Unsupported source map/);
+});
+
+test('parses V8 stack frames', () => {
+  const [frame] = parseStack('Error: failed\n    at load (https://example.com/assets/app.js:1:11)');
+  assert.equal(frame.functionName, 'load');
+  assert.equal(frame.fileName, 'https://example.com/assets/app.js');
+  assert.equal(frame.lineNumber, 1);
+  assert.equal(frame.columnNumber, 11);
+});
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCapture } from './helpers.mjs';
+
+test('timestamps follow the system clock, not the monotonic clock', t => {
+  // A monotonic clock that fell an hour behind, e.g. after the machine slept
+  const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'performance');
+  const performance = globalThis.performance;
+  Object.defineProperty(globalThis, 'performance', {
+    configurable: true,
+    value: { timeOrigin: performance.timeOrigin - 3600000, now: () => performance.now() }
+  });
+  t.after(() => Object.defineProperty(globalThis, 'performance', descriptor));
+
+  const { si, entries } = createCapture();
+  const before = Date.now();
+  si.mainSession.logMessage('now');
+  const time = Date.parse(entries()[0].timestamp);
+  assert.ok(time >= before && time <= Date.now());
+  assert.match(entries()[0].timestamp, /^\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d\.\d{6}Z$/);
+});
+
+test('sequence numbers increase across sessions', () => {
+  const { si, entries } = createCapture();
+  si.mainSession.logMessage('first');
+  si.addSession('Other').logMessage('second');
+  const [first, second] = entries();
+  assert.ok(second.sequence > first.sequence);
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Throttle } from '../dist/smartinspect.node.mjs';
+
+const entry = title => ({ type: 'logEntry', logEntryType: 'message', session: 'Main', title });
+const watch = value => ({ type: 'watch', session: 'Main', name: 'count', value: String(value), watchType: 'integer' });
+
+/**
+ * Creates a throttle that collects what it sends
+ */
+function createThrottle(t, options) {
+  const sent = [];
+  const throttle = new Throttle(message => sent.push(message), options);
+  t.after(() => throttle.flush());
+  return { throttle, sent };
+}
+
+test('collapses identical consecutive log entries', t => {
+  const { throttle, sent } = createThrottle(t, { dedupe: true });
+  for (let i = 0; i < 3; i++) throttle.submit(entry('tick'), 'message');
+  throttle.submit(entry('done'), 'message');
+  assert.deepEqual(sent.map(message => message.title), ['tick', 'tick (repeated 2 times)', 'done']);
+});
+
+test('keeps identical entries that other messages came between', t => {
+  const { throttle, sent } = createThrottle(t, { dedupe: true });
+  throttle.submit(entry('tick'), 'message');
+  throttle.submit(watch(1), 'message');
+  throttle.submit(entry('tick'), 'message');
+  throttle.submit({ type: 'control', command: 'clearLog' }, 'message');
+  throttle.submit(entry('tick'), 'message');
+  assert.deepEqual(sent.map(message => message.title ?? message.type), ['tick', 'watch', 'tick', 'control', 'tick']);
+});
+
+test('drops messages over the rate limit and reports them', t => {
+  const { throttle, sent } = createThrottle(t, { rate: 2, burst: 2 });
+  for (let i = 0; i < 5; i++) throttle.submit(entry(`entry ${i}`), 'message');
+  throttle.flush();
+  assert.deepEqual(sent.map(message => message.title), [
+    'entry 0',
+    'entry 1',
+    'Throttled 3 messages: 3 over the rate limit'
+  ]);
+});
+
+test('sends the latest watch value once per interval', t => {
+  const { throttle, sent } = createThrottle(t, { watchInterval: 60000 });
+  for (let i = 1; i <= 4; i++) throttle.submit(watch(i), 'message');
+  assert.deepEqual(sent.map(message => message.value), ['1']);
+  throttle.flush();
+  assert.equal(sent[1].value, '4');
+});
@@ -12,7 +12,7 @@ public sealed class SmartInspectLogBackend : ISmartInspectLogBackend
     private readonly Dictionary<string, ApplicationRuntimeState> _applicationsByClientId = new(StringComparer.Ordinal);
     private readonly Dictionary<string, ApplicationRuntimeState> _applicationsByKey = new(StringComparer.OrdinalIgnoreCase);
     private readonly Dictionary<string, FlaggedEntryState> _flaggedEntriesById = new(StringComparer.Ordinal);
-    private readonly Dictionary<string, Watch> _watchesByName = new(StringComparer.OrdinalIgnoreCase);
+    private readonly Dictionary<string, Watch> _watchesByKey = new(StringComparer.OrdinalIgnoreCase);
     private readonly List<ProcessFlow> _processFlows = [];
     private readonly Dictionary<string, ListenerRuntimeState> _listeners = new(StringComparer.OrdinalIgnoreCase);
     private readonly SmartInspectBackendOptions _options;
@@ -81,7 +81,7 @@ public sealed class SmartInspectLogBackend : ISmartInspectLogBackend
     {
         lock (_sync)
         {
-            _watchesByName[watch.Name] = watch;
+            _watchesByKey[watch.Key] = watch;
         }
     }
 
@@ -310,7 +310,7 @@ public sealed class SmartInspectLogBackend : ISmartInspectLogBackend
                     })
                     .ToList(),
                 LogEntryCount = _entries.Count,
-                WatchCount = _watchesByName.Count,
+                WatchCount = _watchesByKey.Count,
                 ProcessFlowCount = _processFlows.Count,
                 ConnectedApplicationCount = _applicationsByKey.Values.Count(app => app.IsConnected),
                 MaxLogEntries = _maxLogEntries,
@@ -419,7 +419,7 @@ public sealed class SmartInspectLogBackend : ISmartInspectLogBackend
     {
         lock (_sync)
         {
-            _watchesByName.Clear();
+            _watchesByKey.Clear();
         }
     }
 
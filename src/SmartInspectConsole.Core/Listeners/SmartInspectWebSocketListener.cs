@@ -25,6 +25,7 @@ public class SmartInspectWebSocketListener : IPacketListener
     private HttpListener? _httpListener;
     private CancellationTokenSource? _cts;
     private readonly ConcurrentDictionary<string, WebSocket> _clients = new();
+    private readonly ConcurrentDictionary<string, SemaphoreSlim> _sendLocks = new();
     private int _clientCounter;
 
     public event EventHandler<PacketReceivedEventArgs>? PacketReceived;
@@ -110,6 +111,45 @@ public class SmartInspectWebSocketListener : IPacketListener
         _httpListener = null;
     }
 
+    /// <summary>
+    /// Sends a JSON command to a connected client.
+    /// See <see cref="JsonCommandSerializer"/> for the supported commands.
+    /// </summary>
+    /// <returns>True if the client was connected and the command was sent.</returns>
+    public async Task<bool> SendCommandAsync(string clientId, string json, CancellationToken cancellationToken = default)
+    {
+        if (!_clients.TryGetValue(clientId, out var webSocket) || webSocket.State != WebSocketState.Open)
+            return false;
+
+        // WebSocket allows only one outstanding send per socket
+        var sendLock = _sendLocks.GetOrAdd(clientId, _ => new SemaphoreSlim(1, 1));
+        await sendLock.WaitAsync(cancellationToken);
+        try
+        {
+            var buffer = Encoding.UTF8.GetBytes(json);
+            await webSocket.SendAsync(buffer, WebSocketMessageType.Text, true, cancellationToken);
+            return true;
+        }
+        catch (WebSocketException)
+        {
+            return false;
+        }
+        finally
+        {
+            sendLock.Release();
+        }
+    }
+
+    /// <summary>
+    /// Sends a JSON command to all connected clients.
+    /// </summary>
+    /// <returns>The number of clients the command was sent to.</returns>
+    public async Task<int> BroadcastCommandAsync(string json, CancellationToken cancellationToken = default)
+    {
+        var results = await Task.WhenAll(_clients.Keys.Select(id => SendCommandAsync(id, json, cancellationToken)));
+        return results.Count(sent => sent);
+    }
+
     private async Task AcceptConnectionsAsync(CancellationToken cancellationToken)
     {
         while (!cancellationToken.IsCancellationRequested && _httpListener != null)
@@ -212,6 +252,7 @@ public class SmartInspectWebSocketListener : IPacketListener
         finally
         {
             _clients.TryRemove(clientId, out _);
+            _sendLocks.TryRemove(clientId, out _);
 
             if (webSocket != null)
             {
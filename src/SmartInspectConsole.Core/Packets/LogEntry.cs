@@ -67,6 +67,12 @@ public class LogEntry : Packet
     /// </summary>
     public string HostName { get; set; } = string.Empty;
 
+    /// <summary>
+    /// Gets or sets the language of source code data (e.g. "typescript"), or null.
+    /// Sent by JSON clients; binary packets don't carry it.
+    /// </summary>
+    public string? Language { get; set; }
+
     /// <summary>
     /// Gets or sets the binary data payload.
     /// </summary>
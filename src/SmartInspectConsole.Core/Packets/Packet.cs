@@ -22,4 +22,36 @@ public abstract class Packet
     /// Gets or sets the timestamp when this packet was created.
     /// </summary>
     public DateTime Timestamp { get; set; }
+
+    /// <summary>
+    /// Gets or sets the client's sequence number, if the client sent one.
+    /// Orders packets from the same client that share a timestamp or arrive out of order.
+    /// </summary>
+    public long? Sequence { get; set; }
+
+    /// <summary>
+    /// Gets or sets the client's execution context (e.g. "main" or "worker-2"), if the client sent one.
+    /// </summary>
+    public string? ContextId { get; set; }
+
+    /// <summary>
+    /// Gets or sets the client's context properties (e.g. userId or requestId), if the client sent any.
+    /// Sent by JSON clients; binary packets don't carry them.
+    /// </summary>
+    public IReadOnlyDictionary<string, string>? Properties { get; set; }
+
+    /// <summary>
+    /// Gets or sets the W3C trace ID the client logged this packet in, if any.
+    /// </summary>
+    public string? TraceId { get; set; }
+
+    /// <summary>
+    /// Gets or sets the span ID the client logged this packet in, if any.
+    /// </summary>
+    public string? SpanId { get; set; }
+
+    /// <summary>
+    /// Gets or sets the ID of the span the client's span was started in, if any.
+    /// </summary>
+    public string? ParentSpanId { get; set; }
 }
@@ -24,6 +24,16 @@ public class ProcessFlow : Packet
     /// </summary>
     public string Title { get; set; } = string.Empty;
 
+    /// <summary>
+    /// Gets or sets the session name. Only set for process flow received as JSON.
+    /// </summary>
+    public string SessionName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Gets or sets the application name. Only set for process flow received as JSON.
+    /// </summary>
+    public string AppName { get; set; } = string.Empty;
+
     /// <summary>
     /// Gets or sets the host name.
     /// </summary>
@@ -38,4 +48,34 @@ public class ProcessFlow : Packet
     /// Gets or sets the thread ID.
     /// </summary>
     public int ThreadId { get; set; }
+
+    /// <summary>
+    /// Gets or sets the nesting depth of tracked methods (1 = outermost), if the client sent one.
+    /// </summary>
+    public int? Depth { get; set; }
+
+    /// <summary>
+    /// Gets or sets the time spent in the method, if the client sent one (leave packets only).
+    /// </summary>
+    public TimeSpan? Elapsed { get; set; }
+
+    /// <summary>
+    /// Gets the elapsed time formatted for display, or an empty string if unknown.
+    /// </summary>
+    public string ElapsedFormatted
+    {
+        get
+        {
+            if (Elapsed is not { } elapsed)
+                return string.Empty;
+
+            if (elapsed.TotalMilliseconds < 1000)
+                return $"{elapsed.TotalMilliseconds:F1}ms";
+
+            if (elapsed.TotalSeconds < 60)
+                return $"{elapsed.TotalSeconds:F2}s";
+
+            return elapsed.ToString(@"mm\:ss\.fff");
+        }
+    }
 }
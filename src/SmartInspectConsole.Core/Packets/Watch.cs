@@ -28,4 +28,26 @@ public class Watch : Packet
     /// Gets or sets the watch type.
     /// </summary>
     public WatchType WatchType { get; set; }
+
+    /// <summary>
+    /// Gets or sets the session name. Only set for watches received as JSON.
+    /// </summary>
+    public string SessionName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Gets or sets the application name. Only set for watches received as JSON.
+    /// </summary>
+    public string AppName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Gets or sets the host name. Only set for watches received as JSON.
+    /// </summary>
+    public string HostName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Gets the key identifying this watch: the name, qualified by application,
+    /// host and session when the client sent them, so equally named watches
+    /// from different apps or tabs do not replace each other.
+    /// </summary>
+    public string Key => string.IsNullOrEmpty(AppName) ? Name : $"{AppName}/{HostName}/{SessionName}/{Name}";
 }
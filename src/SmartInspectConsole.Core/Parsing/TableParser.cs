@@ -0,0 +1,135 @@
+using System.Text;
+
+namespace SmartInspectConsole.Core.Parsing;
+
+/// <summary>
+/// Rows and columns from table viewer data.
+/// </summary>
+public class TableData
+{
+    /// <summary>
+    /// Gets the column names.
+    /// </summary>
+    public List<string> Columns { get; } = [];
+
+    /// <summary>
+    /// Gets the rows; rows may have fewer or more entries than there are columns.
+    /// </summary>
+    public List<List<string>> Rows { get; } = [];
+}
+
+/// <summary>
+/// Parses the text format of the table viewer: a header line with the column
+/// names, an empty line, then one line of comma-separated entries per row.
+/// Entries may be quoted, with quotes inside doubled.
+/// </summary>
+public static class TableParser
+{
+    /// <summary>
+    /// Parses table data.
+    /// </summary>
+    /// <param name="text">The viewer data.</param>
+    /// <returns>The parsed table.</returns>
+    public static TableData Parse(string text)
+    {
+        var table = new TableData();
+        var headerRead = false;
+
+        foreach (var rawLine in text.Split('\n'))
+        {
+            var line = rawLine.TrimEnd('\r');
+            if (line.Length == 0) continue;
+
+            if (!headerRead)
+            {
+                table.Columns.AddRange(ParseLine(line));
+                headerRead = true;
+            }
+            else
+            {
+                table.Rows.Add(ParseLine(line));
+            }
+        }
+
+        return table;
+    }
+
+    /// <summary>
+    /// Formats a table as aligned text columns.
+    /// </summary>
+    public static string Format(TableData table)
+    {
+        var columnCount = Math.Max(table.Columns.Count, table.Rows.Count > 0 ? table.Rows.Max(row => row.Count) : 0);
+        var widths = new int[columnCount];
+
+        for (int i = 0; i < columnCount; i++)
+        {
+            widths[i] = i < table.Columns.Count ? table.Columns[i].Length : 0;
+            foreach (var row in table.Rows)
+            {
+                if (i < row.Count) widths[i] = Math.Max(widths[i], row[i].Length);
+            }
+        }
+
+        var sb = new StringBuilder();
+        AppendRow(sb, table.Columns, widths);
+        sb.AppendLine(string.Join("-+-", widths.Select(width => new string('-', width))));
+        foreach (var row in table.Rows)
+        {
+            AppendRow(sb, row, widths);
+        }
+
+        return sb.ToString();
+    }
+
+    private static void AppendRow(StringBuilder sb, List<string> entries, int[] widths)
+    {
+        var cells = widths.Select((width, i) => (i < entries.Count ? entries[i] : string.Empty).PadRight(width));
+        sb.AppendLine(string.Join(" | ", cells).TrimEnd());
+    }
+
+    private static List<string> ParseLine(string line)
+    {
+        var entries = new List<string>();
+        var i = 0;
+
+        while (i <= line.Length)
+        {
+            // Skip the blank after a comma
+            while (i < line.Length && line[i] == ' ') i++;
+
+            var entry = new StringBuilder();
+            var quoted = i < line.Length && line[i] == '"';
+            if (quoted)
+            {
+                i++;
+                while (i < line.Length)
+                {
+                    if (line[i] == '"')
+                    {
+                        if (i + 1 < line.Length && line[i + 1] == '"')
+                        {
+                            entry.Append('"');
+                            i += 2;
+                            continue;
+                        }
+                        i++;
+                        break;
+                    }
+                    entry.Append(line[i++]);
+                }
+                // Skip anything between the closing quote and the next comma
+                while (i < line.Length && line[i] != ',') i++;
+            }
+            else
+            {
+                while (i < line.Length && line[i] != ',') entry.Append(line[i++]);
+            }
+
+            entries.Add(quoted ? entry.ToString() : entry.ToString().Trim());
+            i++; // the comma
+        }
+
+        return entries;
+    }
+}
@@ -0,0 +1,141 @@
+using System.Text;
+
+namespace SmartInspectConsole.Core.Parsing;
+
+/// <summary>
+/// A named group of key/value pairs from inspector or value list data.
+/// </summary>
+public class ValueListGroup
+{
+    /// <summary>
+    /// Gets or sets the group name, or an empty string for pairs outside any group.
+    /// </summary>
+    public string Name { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Gets the key/value pairs in the group.
+    /// </summary>
+    public List<KeyValuePair<string, string>> Items { get; } = [];
+}
+
+/// <summary>
+/// Parses the text formats of the value list and object inspector viewers:
+/// one "key=value" pair per line, with "[Group]" lines in inspector data.
+/// Backslash escapes "\", "=", "[" and "]" inside keys, values and group names.
+/// </summary>
+public static class ValueListParser
+{
+    /// <summary>
+    /// Parses value list or inspector data.
+    /// </summary>
+    /// <param name="text">The viewer data.</param>
+    /// <param name="inspector">Whether "[Group]" lines start groups.</param>
+    /// <returns>The groups in order; pairs before the first group are in an unnamed group.</returns>
+    public static List<ValueListGroup> Parse(string text, bool inspector)
+    {
+        var groups = new List<ValueListGroup>();
+        ValueListGroup? current = null;
+
+        foreach (var rawLine in text.Split('\n'))
+        {
+            var line = rawLine.TrimEnd('\r');
+            if (line.Length == 0) continue;
+
+            if (inspector && IsGroupLine(line))
+            {
+                current = new ValueListGroup { Name = Unescape(line[1..^1]) };
+                groups.Add(current);
+                continue;
+            }
+
+            if (current == null)
+            {
+                current = new ValueListGroup();
+                groups.Add(current);
+            }
+
+            var separator = FindSeparator(line);
+            current.Items.Add(separator < 0
+                ? new KeyValuePair<string, string>(Unescape(line), string.Empty)
+                : new KeyValuePair<string, string>(Unescape(line[..separator]), Unescape(line[(separator + 1)..])));
+        }
+
+        return groups;
+    }
+
+    /// <summary>
+    /// Formats parsed groups as aligned "key = value" lines under "[Group]" headers.
+    /// </summary>
+    public static string Format(IEnumerable<ValueListGroup> groups)
+    {
+        var sb = new StringBuilder();
+
+        foreach (var group in groups)
+        {
+            if (!string.IsNullOrEmpty(group.Name))
+            {
+                if (sb.Length > 0) sb.AppendLine();
+                sb.AppendLine($"[{group.Name}]");
+            }
+
+            var width = group.Items.Count > 0 ? group.Items.Max(item => item.Key.Length) : 0;
+            foreach (var item in group.Items)
+            {
+                sb.AppendLine($"{item.Key.PadRight(width)} = {item.Value}");
+            }
+        }
+
+        return sb.ToString();
+    }
+
+    private static bool IsGroupLine(string line)
+    {
+        // The closing bracket must not be escaped
+        return line.Length >= 2 && line[0] == '[' && line[^1] == ']' && !IsEscaped(line, line.Length - 1);
+    }
+
+    private static int FindSeparator(string line)
+    {
+        for (int i = 0; i < line.Length; i++)
+        {
+            if (line[i] == '\\')
+            {
+                i++;
+            }
+            else if (line[i] == '=')
+            {
+                return i;
+            }
+        }
+
+        return -1;
+    }
+
+    private static bool IsEscaped(string line, int index)
+    {
+        int backslashes = 0;
+        for (int i = index - 1; i >= 0 && line[i] == '\\'; i--)
+        {
+            backslashes++;
+        }
+
+        return backslashes % 2 == 1;
+    }
+
+    private static string Unescape(string item)
+    {
+        if (!item.Contains('\\')) return item;
+
+        var sb = new StringBuilder(item.Length);
+        for (int i = 0; i < item.Length; i++)
+        {
+            if (item[i] == '\\' && i + 1 < item.Length)
+            {
+                i++;
+            }
+            sb.Append(item[i]);
+        }
+
+        return sb.ToString();
+    }
+}
@@ -0,0 +1,41 @@
+using System.Text.Json;
+
+namespace SmartInspectConsole.Core.Protocol;
+
+/// <summary>
+/// Builds JSON commands sent from the console to connected browser clients.
+/// </summary>
+public static class JsonCommandSerializer
+{
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
+        DefaultIgnoreCondition = System.Text.Json.Serialization.JsonIgnoreCondition.WhenWritingNull
+    };
+
+    /// <summary>
+    /// Changes the client log level, globally or for one session.
+    /// </summary>
+    /// <param name="level">Level name: debug, verbose, message, warning, error, fatal or control.</param>
+    /// <param name="session">Session name, or null for all sessions.</param>
+    public static string SetLevel(string level, string? session = null)
+        => JsonSerializer.Serialize(new { type = "setLevel", level = level.ToLowerInvariant(), session }, JsonOptions);
+
+    /// <summary>
+    /// Turns a client session on or off, or all sessions when no session is given.
+    /// </summary>
+    public static string SetSessionActive(bool active, string? session = null)
+        => JsonSerializer.Serialize(new { type = "setSessionActive", active, session }, JsonOptions);
+
+    /// <summary>
+    /// Asks the client to resend the current value of all watches.
+    /// </summary>
+    public static string RequestWatches()
+        => JsonSerializer.Serialize(new { type = "requestWatches" }, JsonOptions);
+
+    /// <summary>
+    /// Asks the client to trigger clearAll.
+    /// </summary>
+    public static string ClearAll()
+        => JsonSerializer.Serialize(new { type = "clearAll" }, JsonOptions);
+}
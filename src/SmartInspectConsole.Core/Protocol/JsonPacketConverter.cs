@@ -32,7 +32,7 @@ public static class JsonPacketConverter
         return type switch
         {
             "logentry" or "log" => ParseLogEntry(root, clientId),
-            "watch" => ParseWatch(root),
+            "watch" => ParseWatch(root, clientId),
             "processflow" or "flow" => ParseProcessFlow(root, clientId),
             "control" or "command" => ParseControlCommand(root),
             _ => null
@@ -103,6 +103,12 @@ public static class JsonPacketConverter
             entry.Title = msgEl.GetString() ?? string.Empty;
         }
 
+        // Host name (the console's machine if not specified)
+        if (TryGetString(json, "hostName", out var hostName))
+        {
+            entry.HostName = hostName;
+        }
+
         // Data payload
         if (json.TryGetProperty("data", out var dataEl))
         {
@@ -112,7 +118,7 @@ public static class JsonPacketConverter
 
             if (!string.IsNullOrEmpty(dataStr))
             {
-                entry.Data = Encoding.UTF8.GetBytes(dataStr);
+                entry.Data = DecodeData(json, dataStr);
                 // If we have data, default to Data viewer
                 if (entry.ViewerId == ViewerId.Title)
                 {
@@ -121,6 +127,12 @@ public static class JsonPacketConverter
             }
         }
 
+        // Source language for highlighting
+        if (TryGetString(json, "language", out var language))
+        {
+            entry.Language = language;
+        }
+
         // Color
         if (json.TryGetProperty("color", out var colorEl))
         {
@@ -131,17 +143,10 @@ public static class JsonPacketConverter
             entry.Color = Color.Transparent;
         }
 
-        // Optional: timestamp override
-        if (json.TryGetProperty("timestamp", out var tsEl))
-        {
-            if (tsEl.TryGetDateTime(out var dt))
-            {
-                entry.Timestamp = dt;
-            }
-        }
+        ApplyClientStamp(json, entry);
 
         // Optional: thread ID
-        if (json.TryGetProperty("threadId", out var threadEl) && threadEl.TryGetInt32(out var tid))
+        if (TryGetThreadId(json, out var tid))
         {
             entry.ThreadId = tid;
         }
@@ -152,7 +157,7 @@ public static class JsonPacketConverter
     /// <summary>
     /// Parses a JSON watch message.
     /// </summary>
-    private static Watch ParseWatch(JsonElement json)
+    private static Watch ParseWatch(JsonElement json, string clientId)
     {
         var watch = new Watch
         {
@@ -181,6 +186,15 @@ public static class JsonPacketConverter
             watch.WatchType = DetectWatchType(json);
         }
 
+        watch.SessionName = TryGetString(json, "session", out var sessionName) ? sessionName : "Default";
+        watch.AppName = TryGetString(json, "appName", out var appName) ? appName : clientId;
+        if (TryGetString(json, "hostName", out var hostName))
+        {
+            watch.HostName = hostName;
+        }
+
+        ApplyClientStamp(json, watch);
+
         return watch;
     }
 
@@ -215,9 +229,132 @@ public static class JsonPacketConverter
             flow.Title = methodEl.GetString() ?? string.Empty;
         }
 
+        flow.SessionName = TryGetString(json, "session", out var sessionName) ? sessionName : "Default";
+        flow.AppName = TryGetString(json, "appName", out var appName) ? appName : clientId;
+        if (TryGetString(json, "hostName", out var hostName))
+        {
+            flow.HostName = hostName;
+        }
+
+        ApplyClientStamp(json, flow);
+
+        if (TryGetThreadId(json, out var tid))
+        {
+            flow.ThreadId = tid;
+        }
+
+        // Optional: tracking information from Session.track
+        if (json.TryGetProperty("depth", out var depthEl) &&
+            depthEl.ValueKind == JsonValueKind.Number &&
+            depthEl.TryGetInt32(out var depth))
+        {
+            flow.Depth = depth;
+        }
+
+        if (json.TryGetProperty("elapsed", out var elapsedEl) &&
+            elapsedEl.ValueKind == JsonValueKind.Number &&
+            elapsedEl.TryGetDouble(out var elapsedMs))
+        {
+            flow.Elapsed = TimeSpan.FromMilliseconds(elapsedMs);
+        }
+
         return flow;
     }
 
+    /// <summary>
+    /// Decodes log entry data: base64 when "dataEncoding" says so, UTF-8 text otherwise.
+    /// Invalid base64 is kept as text so the entry still shows something.
+    /// </summary>
+    private static byte[] DecodeData(JsonElement json, string data)
+    {
+        if (TryGetString(json, "dataEncoding", out var encoding) &&
+            encoding.Equals("base64", StringComparison.OrdinalIgnoreCase))
+        {
+            try
+            {
+                return Convert.FromBase64String(data);
+            }
+            catch (FormatException)
+            {
+                // Fall through to text
+            }
+        }
+
+        return Encoding.UTF8.GetBytes(data);
+    }
+
+    /// <summary>
+    /// Applies the optional client timestamp, sequence number, context ID, context properties and trace.
+    /// Client timestamps are converted to local time to match packets stamped by the console.
+    /// </summary>
+    private static void ApplyClientStamp(JsonElement json, Packet packet)
+    {
+        if (json.TryGetProperty("timestamp", out var tsEl) &&
+            tsEl.ValueKind == JsonValueKind.String &&
+            tsEl.TryGetDateTime(out var dt))
+        {
+            packet.Timestamp = dt.Kind == DateTimeKind.Utc ? dt.ToLocalTime() : dt;
+        }
+
+        if (json.TryGetProperty("sequence", out var seqEl) &&
+            seqEl.ValueKind == JsonValueKind.Number &&
+            seqEl.TryGetInt64(out var sequence))
+        {
+            packet.Sequence = sequence;
+        }
+
+        if (json.TryGetProperty("contextId", out var contextEl) && contextEl.ValueKind == JsonValueKind.String)
+        {
+            packet.ContextId = contextEl.GetString();
+        }
+
+        if (json.TryGetProperty("properties", out var propertiesEl) && propertiesEl.ValueKind == JsonValueKind.Object)
+        {
+            var properties = new Dictionary<string, string>();
+            foreach (var property in propertiesEl.EnumerateObject())
+            {
+                properties[property.Name] = property.Value.ValueKind switch
+                {
+                    JsonValueKind.String => property.Value.GetString() ?? string.Empty,
+                    JsonValueKind.Null => string.Empty,
+                    _ => property.Value.GetRawText()
+                };
+            }
+            packet.Properties = properties;
+        }
+
+        if (TryGetString(json, "traceId", out var traceId))
+        {
+            packet.TraceId = traceId;
+            packet.SpanId = TryGetString(json, "spanId", out var spanId) ? spanId : null;
+            packet.ParentSpanId = TryGetString(json, "parentSpanId", out var parentSpanId) ? parentSpanId : null;
+        }
+    }
+
+    /// <summary>
+    /// Reads an optional non-empty string property.
+    /// </summary>
+    private static bool TryGetString(JsonElement json, string propertyName, out string value)
+    {
+        value = string.Empty;
+        if (json.TryGetProperty(propertyName, out var element) && element.ValueKind == JsonValueKind.String)
+        {
+            value = element.GetString() ?? string.Empty;
+        }
+        return value.Length > 0;
+    }
+
+    /// <summary>
+    /// Reads the optional client thread ID.
+    /// </summary>
+    private static bool TryGetThreadId(JsonElement json, out int threadId)
+    {
+        threadId = 0;
+        return json.TryGetProperty("threadId", out var threadEl) &&
+            threadEl.ValueKind == JsonValueKind.Number &&
+            threadEl.TryGetInt32(out threadId);
+    }
+
     /// <summary>
     /// Parses a JSON control command message.
     /// </summary>
@@ -258,6 +395,8 @@ public static class JsonPacketConverter
             "text" => LogEntryType.Text,
             "object" or "obj" => LogEntryType.Object,
             "binary" => LogEntryType.Binary,
+            "source" => LogEntryType.Source,
+            "graphic" or "image" => LogEntryType.Graphic,
             _ => LogEntryType.Message
         };
     }
@@ -279,6 +418,13 @@ public static class JsonPacketConverter
             "html" => ViewerId.HtmlSource,
             "sql" => ViewerId.SqlSource,
             "python" => ViewerId.PythonSource,
+            "ini" => ViewerId.IniSource,
+            "vbscript" => ViewerId.VbScriptSource,
+            "perl" => ViewerId.PerlSource,
+            "bitmap" or "image" or "png" => ViewerId.Bitmap,
+            "jpeg" or "jpg" => ViewerId.Jpeg,
+            "icon" => ViewerId.Icon,
+            "metafile" => ViewerId.Metafile,
             _ => ViewerId.Data
         };
     }
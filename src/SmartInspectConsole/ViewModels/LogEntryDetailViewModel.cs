@@ -1,11 +1,15 @@
 using System.Collections.ObjectModel;
+using System.IO;
 using System.Text;
 using System.Text.Json;
 using System.Windows;
 using System.Windows.Input;
+using System.Windows.Media;
+using System.Windows.Media.Imaging;
 using System.Xml;
 using System.Xml.Linq;
 using SmartInspectConsole.Core.Packets;
+using SmartInspectConsole.Core.Parsing;
 
 namespace SmartInspectConsole.ViewModels;
 
@@ -31,6 +35,7 @@ public class LogEntryDetailViewModel : ViewModelBase
     private bool _isFormatted = true;
     private FormatOption? _selectedFormat;
     private string _rawText = string.Empty;
+    private readonly BitmapSource? _image;
 
     public LogEntryDetailViewModel(LogEntry logEntry)
     {
@@ -44,7 +49,9 @@ public class LogEntryDetailViewModel : ViewModelBase
             new() { Name = "JSON", Value = "json" },
             new() { Name = "XML", Value = "xml" },
             new() { Name = "Binary (Hex)", Value = "binary" },
-            new() { Name = "Key-Value", Value = "keyvalue" }
+            new() { Name = "Key-Value", Value = "keyvalue" },
+            new() { Name = "Value List", Value = "valuelist" },
+            new() { Name = "Table", Value = "table" }
         };
 
         _selectedFormat = FormatOptions[0]; // Default to auto-detect
@@ -55,6 +62,11 @@ public class LogEntryDetailViewModel : ViewModelBase
         // Store raw text and detect format
         if (_logEntry.Data != null && _logEntry.Data.Length > 0)
         {
+            if (IsImageViewer(_logEntry.ViewerId))
+            {
+                _image = TryLoadImage(_logEntry.Data);
+            }
+
             _rawText = Encoding.UTF8.GetString(_logEntry.Data);
 
             // Strip UTF-8 BOM if present (can interfere with format detection)
@@ -82,6 +94,33 @@ public class LogEntryDetailViewModel : ViewModelBase
     public int ThreadId => _logEntry.ThreadId;
     public int DataSize => _logEntry.Data?.Length ?? 0;
 
+    /// <summary>
+    /// Gets whether the client sent context properties with this entry.
+    /// </summary>
+    public bool HasProperties => _logEntry.Properties is { Count: > 0 };
+
+    /// <summary>
+    /// Gets the context properties as "key=value" pairs.
+    /// </summary>
+    public string PropertiesText => _logEntry.Properties == null
+        ? string.Empty
+        : string.Join(", ", _logEntry.Properties.Select(p => $"{p.Key}={p.Value}"));
+
+    /// <summary>
+    /// Gets whether the entry was logged in a distributed trace.
+    /// </summary>
+    public bool HasTrace => !string.IsNullOrEmpty(_logEntry.TraceId);
+
+    /// <summary>
+    /// Gets the trace and span IDs for display.
+    /// </summary>
+    public string TraceText => HasTrace ? $"{_logEntry.TraceId} / span {_logEntry.SpanId}" : string.Empty;
+
+    /// <summary>
+    /// Gets whether context properties or a trace are shown.
+    /// </summary>
+    public bool HasContext => HasProperties || HasTrace;
+
     public string DetectedFormat
     {
         get => _detectedFormat;
@@ -101,6 +140,7 @@ public class LogEntryDetailViewModel : ViewModelBase
         {
             if (SetProperty(ref _isFormatted, value))
             {
+                OnPropertyChanged(nameof(IsImageShown));
                 DetectAndFormatPayload();
             }
         }
@@ -108,6 +148,16 @@ public class LogEntryDetailViewModel : ViewModelBase
 
     public bool HasData => _logEntry.Data != null && _logEntry.Data.Length > 0;
 
+    /// <summary>
+    /// Gets the decoded image for entries sent to an image viewer, or null.
+    /// </summary>
+    public ImageSource? Image => _image;
+
+    /// <summary>
+    /// Gets whether the image is shown instead of the text, i.e. while formatting is automatic.
+    /// </summary>
+    public bool IsImageShown => _image != null && _isFormatted && _selectedFormat?.Value == "auto";
+
     public LogEntry LogEntry => _logEntry;
 
     public ObservableCollection<FormatOption> FormatOptions { get; }
@@ -119,6 +169,7 @@ public class LogEntryDetailViewModel : ViewModelBase
         {
             if (SetProperty(ref _selectedFormat, value))
             {
+                OnPropertyChanged(nameof(IsImageShown));
                 ApplySelectedFormat();
             }
         }
@@ -136,7 +187,14 @@ public class LogEntryDetailViewModel : ViewModelBase
 
         try
         {
-            Clipboard.SetText(FormattedData);
+            if (IsImageShown)
+            {
+                Clipboard.SetImage(_image);
+            }
+            else
+            {
+                Clipboard.SetText(FormattedData);
+            }
         }
         catch
         {
@@ -210,6 +268,16 @@ public class LogEntryDetailViewModel : ViewModelBase
                 DetectedFormat = "Key-Value";
                 break;
 
+            case "table":
+                FormattedData = TableParser.Format(TableParser.Parse(_rawText));
+                DetectedFormat = "Table";
+                break;
+
+            case "valuelist":
+                FormattedData = ValueListParser.Format(ValueListParser.Parse(_rawText, inspector: true));
+                DetectedFormat = "Value List";
+                break;
+
             default:
                 FormattedData = _rawText;
                 DetectedFormat = "Text";
@@ -234,7 +302,12 @@ public class LogEntryDetailViewModel : ViewModelBase
         }
 
         // Try to detect and format the payload
-        if (TryFormatAsJson(_rawText, out var jsonFormatted))
+        if (TryFormatForViewer(out var viewerFormatted, out var viewerFormat))
+        {
+            FormattedData = viewerFormatted;
+            DetectedFormat = viewerFormat;
+        }
+        else if (TryFormatAsJson(_rawText, out var jsonFormatted))
         {
             FormattedData = jsonFormatted;
             DetectedFormat = "JSON";
@@ -261,6 +334,83 @@ public class LogEntryDetailViewModel : ViewModelBase
         }
     }
 
+    // Binary, image, list, value list, inspector and table data use fixed formats, so the viewer ID decides
+    private bool TryFormatForViewer(out string formatted, out string format)
+    {
+        // Source code is shown as sent; reformatting would move its line numbers
+        if (!string.IsNullOrEmpty(_logEntry.Language))
+        {
+            formatted = _rawText;
+            format = $"Source ({_logEntry.Language})";
+            return true;
+        }
+
+        switch (_logEntry.ViewerId)
+        {
+            case Core.Enums.ViewerId.Binary:
+                formatted = FormatAsBinaryHex(_logEntry.Data!);
+                format = "Binary";
+                return true;
+
+            case Core.Enums.ViewerId.Bitmap:
+            case Core.Enums.ViewerId.Jpeg:
+            case Core.Enums.ViewerId.Icon:
+                // The hex dump stays available through the format selection and Copy
+                formatted = FormatAsBinaryHex(_logEntry.Data!);
+                format = _image != null ? $"Image ({_image.PixelWidth} x {_image.PixelHeight})" : "Binary";
+                return true;
+
+            case Core.Enums.ViewerId.Inspector:
+                formatted = ValueListParser.Format(ValueListParser.Parse(_rawText, inspector: true));
+                format = "Inspector";
+                return true;
+
+            case Core.Enums.ViewerId.ValueList:
+                formatted = ValueListParser.Format(ValueListParser.Parse(_rawText, inspector: false));
+                format = "Value List";
+                return true;
+
+            case Core.Enums.ViewerId.Table:
+                formatted = TableParser.Format(TableParser.Parse(_rawText));
+                format = "Table";
+                return true;
+
+            case Core.Enums.ViewerId.List:
+                formatted = _rawText;
+                format = "List";
+                return true;
+
+            default:
+                formatted = string.Empty;
+                format = string.Empty;
+                return false;
+        }
+    }
+
+    private static bool IsImageViewer(Core.Enums.ViewerId viewerId)
+    {
+        return viewerId is Core.Enums.ViewerId.Bitmap or Core.Enums.ViewerId.Jpeg or Core.Enums.ViewerId.Icon;
+    }
+
+    private static BitmapSource? TryLoadImage(byte[] data)
+    {
+        try
+        {
+            var image = new BitmapImage();
+            image.BeginInit();
+            image.CacheOption = BitmapCacheOption.OnLoad;
+            image.StreamSource = new MemoryStream(data);
+            image.EndInit();
+            image.Freeze();
+            return image;
+        }
+        catch (Exception ex) when (ex is NotSupportedException or FileFormatException or ArgumentException)
+        {
+            // Not a format WPF can decode (e.g. SVG); the hex dump is shown instead
+            return null;
+        }
+    }
+
     private static bool TryFormatAsJson(string text, out string formatted)
     {
         formatted = string.Empty;
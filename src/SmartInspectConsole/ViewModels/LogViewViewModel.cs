@@ -575,12 +575,16 @@ public class LogViewViewModel : ViewModelBase
                 return false;
         }
 
-        // Text filter (searches title and data)
+        // Text filter (searches title, data, context properties as "key=value", the trace ID and the context ID)
         if (!string.IsNullOrWhiteSpace(TextFilter))
         {
             var matchesTitle = entry.Title.Contains(TextFilter, StringComparison.OrdinalIgnoreCase);
             var matchesData = entry.DataAsString?.Contains(TextFilter, StringComparison.OrdinalIgnoreCase) ?? false;
-            if (!matchesTitle && !matchesData)
+            var matchesProperties = entry.Properties?.Any(p =>
+                $"{p.Key}={p.Value}".Contains(TextFilter, StringComparison.OrdinalIgnoreCase)) ?? false;
+            var matchesTrace = entry.TraceId?.Contains(TextFilter.Trim(), StringComparison.OrdinalIgnoreCase) ?? false;
+            var matchesContext = entry.ContextId?.Equals(TextFilter.Trim(), StringComparison.OrdinalIgnoreCase) ?? false;
+            if (!matchesTitle && !matchesData && !matchesProperties && !matchesTrace && !matchesContext)
                 return false;
         }
 
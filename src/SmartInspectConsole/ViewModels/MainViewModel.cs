@@ -15,6 +15,7 @@ using SmartInspectConsole.Core.Events;
 using SmartInspectConsole.Core.FileIO;
 using SmartInspectConsole.Core.Listeners;
 using SmartInspectConsole.Core.Packets;
+using SmartInspectConsole.Core.Protocol;
 using SmartInspectConsole.Collections;
 using SmartInspectConsole.Helpers;
 using SmartInspectConsole.Models;
@@ -154,6 +155,11 @@ public class MainViewModel : ViewModelBase, IDisposable
         RemoveConnectionCommand = new RelayCommand<ConnectedApplication>(RemoveConnection);
         OpenApplicationViewCommand = new RelayCommand<ConnectedApplication>(OpenApplicationView);
 
+        // Client commands (WebSocket clients only)
+        SetClientLevelCommand = new AsyncRelayCommand(SetClientLevelAsync, _ => IsListening && _webSocketListener != null);
+        RequestClientWatchesCommand = new AsyncRelayCommand(RequestClientWatchesAsync, () => IsListening && _webSocketListener != null);
+        ClearAllOnClientsCommand = new AsyncRelayCommand(ClearAllOnClientsAsync, () => IsListening && _webSocketListener != null);
+
         // File I/O commands
         OpenLogFileCommand = new AsyncRelayCommand(OpenLogFileAsync);
         SaveLogFileCommand = new AsyncRelayCommand(SaveLogFileAsync, () => LogEntries.Count > 0);
@@ -421,6 +427,11 @@ public class MainViewModel : ViewModelBase, IDisposable
     public ICommand RemoveConnectionCommand { get; }
     public ICommand OpenApplicationViewCommand { get; }
 
+    // Client commands
+    public ICommand SetClientLevelCommand { get; }
+    public ICommand RequestClientWatchesCommand { get; }
+    public ICommand ClearAllOnClientsCommand { get; }
+
     // Detail tabs
     public ICommand OpenLogEntryDetailCommand { get; }
     public ICommand CloseDetailTabCommand { get; }
@@ -830,7 +841,14 @@ public class MainViewModel : ViewModelBase, IDisposable
         try
         {
             // Process log entries in batch
-            while (logEntriesProcessed < maxBatchSize && _pendingLogEntries.TryDequeue(out var pending))
+            var batch = new List<(LogEntry LogEntry, string ClientId)>(maxBatchSize);
+            while (batch.Count < maxBatchSize && _pendingLogEntries.TryDequeue(out var dequeued))
+            {
+                batch.Add(dequeued);
+            }
+            OrderBySequence(batch);
+
+            foreach (var pending in batch)
             {
                 var logEntry = pending.LogEntry;
                 AccumulateConnectionUpdate(connectionUpdates, pending.ClientId, logEntry.AppName, logEntry.HostName);
@@ -976,7 +994,7 @@ public class MainViewModel : ViewModelBase, IDisposable
         {
             // Update existing watch or add new one
             var existing = Watches.FirstOrDefault(w =>
-                w.Name.Equals(watch.Name, StringComparison.OrdinalIgnoreCase));
+                w.Key.Equals(watch.Key, StringComparison.OrdinalIgnoreCase));
 
             if (existing != null)
             {
@@ -1310,6 +1328,46 @@ public class MainViewModel : ViewModelBase, IDisposable
         ConnectedApplications.Remove(app);
     }
 
+    /// <summary>
+    /// Sets the log level of all WebSocket clients; the parameter is the level name.
+    /// </summary>
+    private Task SetClientLevelAsync(object? level)
+    {
+        if (level is not string name || string.IsNullOrEmpty(name))
+            return Task.CompletedTask;
+
+        return BroadcastToClientsAsync(JsonCommandSerializer.SetLevel(name), $"Log level '{name}'");
+    }
+
+    /// <summary>
+    /// Asks all WebSocket clients to resend their watches.
+    /// </summary>
+    private Task RequestClientWatchesAsync()
+        => BroadcastToClientsAsync(JsonCommandSerializer.RequestWatches(), "Watch request");
+
+    /// <summary>
+    /// Asks all WebSocket clients to trigger clearAll.
+    /// </summary>
+    private Task ClearAllOnClientsAsync()
+        => BroadcastToClientsAsync(JsonCommandSerializer.ClearAll(), "Clear all");
+
+    private async Task BroadcastToClientsAsync(string json, string description)
+    {
+        var listener = _webSocketListener;
+        if (listener == null)
+            return;
+
+        try
+        {
+            var count = await listener.BroadcastCommandAsync(json);
+            StatusText = $"{description} sent to {count} client(s)";
+        }
+        catch (Exception ex)
+        {
+            StatusText = $"Error: {ex.Message}";
+        }
+    }
+
     private void OnError(object? sender, Exception e)
     {
         Application.Current.Dispatcher.BeginInvoke(() =>
@@ -1998,6 +2056,40 @@ public class MainViewModel : ViewModelBase, IDisposable
         DiagnosticsText = DiagnosticsSnapshot.ToString();
     }
 
+    /// <summary>
+    /// Puts each client's sequenced entries in sequence order, in the positions they
+    /// arrived in. Entries sharing a timestamp, or sent late (such as exceptions waiting
+    /// for source maps), keep the client's order. Other clients' entries don't move.
+    /// </summary>
+    private static void OrderBySequence(List<(LogEntry LogEntry, string ClientId)> batch)
+    {
+        var positionsByClient = new Dictionary<string, List<int>>(StringComparer.Ordinal);
+        for (var i = 0; i < batch.Count; i++)
+        {
+            if (batch[i].LogEntry.Sequence is null)
+                continue;
+
+            if (!positionsByClient.TryGetValue(batch[i].ClientId, out var positions))
+            {
+                positions = new List<int>();
+                positionsByClient[batch[i].ClientId] = positions;
+            }
+            positions.Add(i);
+        }
+
+        foreach (var positions in positionsByClient.Values)
+        {
+            if (positions.Count < 2)
+                continue;
+
+            var ordered = positions.Select(i => batch[i]).OrderBy(p => p.LogEntry.Sequence).ToList();
+            for (var i = 0; i < positions.Count; i++)
+            {
+                batch[positions[i]] = ordered[i];
+            }
+        }
+    }
+
     private void EnqueuePendingLogEntry(LogEntry logEntry, string clientId)
     {
         lock (_pendingLogEntriesLock)